@@ -6,6 +6,7 @@ import { MarketDataManager } from './pages/MarketData';
 import { StrategyBuilder } from './pages/StrategyBuilder';
 import { BacktestEngine } from './pages/Backtest';
 import { Dashboard } from './pages/Dashboard';
+import { WalkForwardOptimizer } from './pages/Optimizer';
 
 const App: React.FC = () => {
   return (
@@ -17,6 +18,7 @@ const App: React.FC = () => {
           <Route path="/market-data" element={<MarketDataManager />} />
           <Route path="/strategies" element={<StrategyBuilder />} />
           <Route path="/backtest" element={<BacktestEngine />} />
+          <Route path="/optimizer" element={<WalkForwardOptimizer />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Layout>
@@ -1,28 +1,5 @@
 
-import { Rule, SymbolData, MarketDataProvider, Strategy, RebalanceFrequency, PriceType, Currency } from "./types";
-
-export const AVAILABLE_RULES: Rule[] = [
-  {
-    id: 'rule_1',
-    name: 'Triple Trend Slow Response',
-    description: '50% weight to 50d MA, 25% weight to 75d MA, and 25% weight to 100d MA. Allocates to RiskOn if Price > MA, else RiskOff.'
-  },
-  {
-    id: 'rule_2',
-    name: 'Triple Trend Quick Response',
-    description: '25% weight to 25d MA, 50% weight to 50d MA, and 25% weight to 100d MA. Faster, more aggressive response to trend shifts.'
-  },
-  {
-    id: 'rule_3',
-    name: 'Macro-Vol Adaptive Trend (Alpha)',
-    description: '50% 200d MA (Macro), 30% 50d MA (Medium), and 20% Volatility Guard. Reduces exposure when volatility expands even if price is high.'
-  },
-  {
-    id: 'rule_4',
-    name: 'Multi-Timeframe Sentinel (Alpha+)',
-    description: '40% 200d MA, 30% 126d Momentum, 30% 63d Momentum. Includes a Volatility-Clamp that halves exposure if short-term risk spikes.'
-  }
-];
+import { SymbolData, MarketDataProvider, Strategy, RebalanceFrequency, PriceType, Currency } from "./types";
 
 export const INITIAL_SYMBOLS: SymbolData[] = [
   { id: '1', ticker: 'SPY', name: 'S&P 500 ETF', exchange: 'NYSE', defaultCCY: Currency.USD, isList: false },
@@ -1,23 +1,37 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, Button, Select, Input } from '../components/ui';
 import { StorageService } from '../services/storage';
-import { Strategy, BacktestResult, SymbolData, RebalanceFrequency } from '../types';
-import { StrategyEngine, SimResultPoint, SimTrade } from '../services/strategyEngine';
+import { Strategy, BacktestResult, SymbolData, RebalanceFrequency, Currency } from '../types';
+import { SimResultPoint, SimTrade, SubStrategySummary, DetailedSimResult, RebalanceTrigger, STOP_TRIGGERS } from '../services/strategyEngine';
+import { EnginePool, EngineJob, CANCELLED_MESSAGE } from '../services/enginePool';
+import { Metrics, PerformanceStats } from '../services/metrics';
+import { EXECUTION_MODEL_LABELS } from '../services/execution';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   Legend, AreaChart, Area
 } from 'recharts';
 
+// Regime areas, from the most risk-on regime to the most defensive
+const REGIME_COLORS = ['#10b981', '#38bdf8', '#a78bfa', '#f59e0b', '#f97316', '#ef4444', '#64748b'];
+
+// Calendar year of a YYYY-MM-DD date; parsing it with Date would shift it in negative-offset time zones
+const yearOf = (date: string) => Number(date.slice(0, 4));
+
 interface ComparisonStats {
-  strategy: { totalReturn: number; cagr: number; maxDD: number; volatility: number; sharpe: number; };
-  benchmark: { totalReturn: number; cagr: number; maxDD: number; volatility: number; sharpe: number; };
+  strategy: PerformanceStats;
+  benchmark: PerformanceStats;
   rolling: { tenor: string; strat: { min: number; mean: number; max: number }; bench: { min: number; mean: number; max: number } }[];
-  yearlyActivity: { year: number; switches: number; totalTrades: number }[];
+  yearlyActivity: { year: number; switches: number; totalTrades: number; rebalances: number; bandRebalances: number; turnover: number; costDrag: number }[];
   yearlyReturns: { year: number; strat: number; bench: number }[];
   tenors: { label: string; stats: { strat: number; bench: number; alpha: number } }[];
+  costs: { total: number; drag: number; byComponent: Record<string, number> }; // Drag: annual % of average NAV
+  rounding?: { trackingError: number; returnGap: number; residualCash: number }; // Versus the fractional ideal, in %
 }
 
+// Cash as % of NAV: whatever the holdings' signed weights leave over
+const cashPct = (p: SimResultPoint) => 100 - Object.values(p.exposures).reduce((a, w) => a + w * 100, 0);
+
 export const BacktestEngine = () => {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
   const [symbols, setSymbols] = useState<SymbolData[]>([]);
@@ -29,10 +43,13 @@ export const BacktestEngine = () => {
   const [customEndDate, setCustomEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
 
   const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const jobRef = useRef<EngineJob<DetailedSimResult> | null>(null);
   const [result, setResult] = useState<BacktestResult | null>(null);
-  const [detailedResult, setDetailedResult] = useState<{ trades: SimTrade[], regimeSwitches: any[] } | null>(null);
+  const [detailedResult, setDetailedResult] = useState<{ trades: SimTrade[], regimeSwitches: any[], subStrategies?: SubStrategySummary[], regimes?: DetailedSimResult['regimes'], rotations?: DetailedSimResult['rotations'], currency: Currency, idealSeries?: SimResultPoint[], preTaxSeries?: SimResultPoint[], taxYears?: DetailedSimResult['taxYears'], liquidityWarnings?: DetailedSimResult['liquidityWarnings'], sessionsPerYear: number } | null>(null);
   const [errorMessage, setErrorMessage] = useState('');
   const [activeTab, setActiveTab] = useState<'Chart' | 'Trades' | 'Compare'>('Chart');
+  const [tradeFilter, setTradeFilter] = useState<'All' | 'Stops' | RebalanceTrigger>('All');
   const [range, setRange] = useState<[number, number]>([0, 0]);
 
   useEffect(() => {
@@ -55,45 +72,12 @@ export const BacktestEngine = () => {
     if (s) setOnlyTradeOnSignalChange(s.onlyTradeOnSignalChange || false);
   }, [selectedStrategyId, strategies]);
 
-  const calculateFullStats = (slice: SimResultPoint[], trades: SimTrade[], switches: any[]): ComparisonStats => {
-    const calcBase = (vals: number[]) => {
-      if (vals.length < 5) return { totalReturn: 0, cagr: 0, maxDD: 0, volatility: 0, sharpe: 0 };
-      
-      const returns: number[] = [];
-      for (let i = 1; i < vals.length; i++) {
-        let r = (vals[i] / (vals[i - 1] || 1)) - 1;
-        if (r > 1) r = 1;
-        if (r < -0.9) r = -0.9;
-        if (isFinite(r)) returns.push(r);
-      }
-      
-      const first = vals[0], last = vals[vals.length - 1];
-      const years = Math.max(0.01, vals.length / 252);
-      
-      let cagr = (Math.pow(Math.abs(last / (first || 1)), 1 / years) - 1) * 100;
-      if (!isFinite(cagr) || cagr > 10000) cagr = 0;
-
-      const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
-      const vol = returns.length > 1 
-        ? Math.sqrt(returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (returns.length - 1) * 252) * 100
-        : 0;
-
-      let peak = -Infinity, mdd = 0;
-      vals.forEach(v => { if (v > peak) peak = v; const dd = (peak - v) / (peak || 1); if (dd > mdd) mdd = dd; });
-      
-      return { 
-        totalReturn: ((last - first) / (first || 1)) * 100, 
-        cagr, 
-        maxDD: mdd * 100, 
-        volatility: vol, 
-        sharpe: (vol > 1) ? (cagr - 5) / vol : 0 
-      }; 
-    };
-
+  // `raw` is the un-normalized slice, needed to size trade values against NAV
+  const calculateFullStats = (slice: SimResultPoint[], raw: SimResultPoint[], trades: SimTrade[], switches: any[], sessionsPerYear: number, ideal?: SimResultPoint[]): ComparisonStats => {
     const calcRolling = (series: number[], window: number) => {
       if (series.length < window + 5) return { min: 0, mean: 0, max: 0 };
       const rolls: number[] = [];
-      const years = window / 252;
+      const years = window / sessionsPerYear;
       for (let i = window; i < series.length; i++) {
         const start = series[i - window];
         const end = series[i];
@@ -111,16 +95,17 @@ export const BacktestEngine = () => {
       };
     };
 
+    const quarter = Math.round(sessionsPerYear / 4);
     const rolling = [
-      { tenor: '3M Rolling', strat: calcRolling(slice.map(p => p.value), 63), bench: calcRolling(slice.map(p => p.benchmarkValue), 63) },
-      { tenor: '1Y Rolling', strat: calcRolling(slice.map(p => p.value), 252), bench: calcRolling(slice.map(p => p.benchmarkValue), 252) },
-      { tenor: '3Y Rolling', strat: calcRolling(slice.map(p => p.value), 756), bench: calcRolling(slice.map(p => p.benchmarkValue), 756) }
+      { tenor: '3M Rolling', strat: calcRolling(slice.map(p => p.value), quarter), bench: calcRolling(slice.map(p => p.benchmarkValue), quarter) },
+      { tenor: '1Y Rolling', strat: calcRolling(slice.map(p => p.value), sessionsPerYear), bench: calcRolling(slice.map(p => p.benchmarkValue), sessionsPerYear) },
+      { tenor: '3Y Rolling', strat: calcRolling(slice.map(p => p.value), 3 * sessionsPerYear), bench: calcRolling(slice.map(p => p.benchmarkValue), 3 * sessionsPerYear) }
     ];
 
-    const yearsList = Array.from(new Set(slice.map(p => new Date(p.date).getFullYear()))).sort((a,b) => b-a);
+    const yearsList = Array.from(new Set(slice.map(p => yearOf(p.date)))).sort((a,b) => b-a);
     
     const yearlyReturns = yearsList.map(yr => {
-        const yrData = slice.filter(p => new Date(p.date).getFullYear() === yr);
+        const yrData = slice.filter(p => yearOf(p.date) === yr);
         if (yrData.length < 10) return { year: yr, strat: 0, bench: 0 };
         const stratRet = ((yrData[yrData.length-1].value / yrData[0].value) - 1) * 100;
         const benchRet = ((yrData[yrData.length-1].benchmarkValue / yrData[0].benchmarkValue) - 1) * 100;
@@ -132,9 +117,22 @@ export const BacktestEngine = () => {
     });
 
     const yearlyActivity = yearsList.map(yr => {
-        const yrTrades = trades.filter(t => new Date(t.date).getFullYear() === yr);
-        const yrSwitches = switches.filter(s => new Date(s.date).getFullYear() === yr);
-        return { year: yr, switches: yrSwitches.length, totalTrades: yrTrades.length };
+        const yrTrades = trades.filter(t => yearOf(t.date) === yr);
+        const yrSwitches = switches.filter(s => yearOf(s.date) === yr);
+        const yrNav = raw.filter(p => yearOf(p.date) === yr);
+        const avgNav = yrNav.reduce((a, p) => a + p.value, 0) / (yrNav.length || 1);
+        // One-way turnover: half of everything bought and sold, as a share of average NAV
+        const traded = yrTrades.reduce((a, t) => a + Math.abs(t.value), 0);
+        const costs = yrTrades.reduce((a, t) => a + (t.cost || 0), 0);
+        return {
+            year: yr,
+            switches: yrSwitches.length,
+            totalTrades: yrTrades.length,
+            rebalances: new Set(yrTrades.map(t => t.date)).size,
+            bandRebalances: new Set(yrTrades.filter(t => t.trigger === 'DriftBand').map(t => t.date)).size,
+            turnover: avgNav > 0 ? (traded / 2 / avgNav) * 100 : 0,
+            costDrag: avgNav > 0 ? (costs / avgNav) * 100 : 0
+        };
     });
 
     const getTenorStats = (s: SimResultPoint[], days: number) => {
@@ -147,7 +145,7 @@ export const BacktestEngine = () => {
         
         if (start < 0.1 || bStart < 0.1) return null;
         
-        const years = days / 252;
+        const years = days / sessionsPerYear;
         const sCAGR = (Math.pow(Math.abs(end / start), 1/years) - 1) * 100;
         const bCAGR = (Math.pow(Math.abs(bEnd / bStart), 1/years) - 1) * 100;
         
@@ -158,29 +156,63 @@ export const BacktestEngine = () => {
         };
     };
 
-    const stratStats = calcBase(slice.map(p=>p.value));
-    const benchStats = calcBase(slice.map(p=>p.benchmarkValue));
+    const stratStats = Metrics.summarize(slice.map(p=>p.value), sessionsPerYear);
+    const benchStats = Metrics.summarize(slice.map(p=>p.benchmarkValue), sessionsPerYear);
 
     const tenors = [
-        { label: '1 Year', stats: getTenorStats(slice, 252) },
-        { label: '3 Years', stats: getTenorStats(slice, 756) },
-        { label: '5 Years', stats: getTenorStats(slice, 1260) },
+        { label: '1 Year', stats: getTenorStats(slice, sessionsPerYear) },
+        { label: '3 Years', stats: getTenorStats(slice, 3 * sessionsPerYear) },
+        { label: '5 Years', stats: getTenorStats(slice, 5 * sessionsPerYear) },
         { label: 'Full Period', stats: { strat: stratStats.cagr, bench: benchStats.cagr, alpha: stratStats.cagr - benchStats.cagr } }
     ].filter(t => t.stats !== null) as { label: string; stats: { strat: number; bench: number; alpha: number } }[];
 
+    const windowTrades = raw.length > 0 ? trades.filter(t => t.date >= raw[0].date && t.date <= raw[raw.length - 1].date) : [];
+    const byComponent: Record<string, number> = {};
+    windowTrades.forEach(t => {
+        const costs = t.costs || {};
+        (Object.keys(costs) as (keyof typeof costs)[]).forEach(k => byComponent[k] = (byComponent[k] || 0) + (costs[k] || 0));
+    });
+    const totalCost = windowTrades.reduce((a, t) => a + (t.cost || 0), 0);
+    const windowAvgNav = raw.reduce((a, p) => a + p.value, 0) / (raw.length || 1);
+    const windowYears = raw.length / sessionsPerYear;
+
+    // Rounded orders are judged against the same strategy trading fractionally with no minimum
+    let rounding: ComparisonStats['rounding'];
+    if (ideal) {
+        const idealByDate = new Map(ideal.map(p => [p.date, p]));
+        const paired = raw.filter(p => idealByDate.has(p.date));
+        const twin = paired.map(p => idealByDate.get(p.date)!);
+        if (paired.length > 1) {
+            const actual = Metrics.summarize(paired.map(p => p.value)).totalReturn;
+            const target = Metrics.summarize(twin.map(p => p.value)).totalReturn;
+            rounding = {
+                trackingError: Metrics.trackingError(paired.map(p => p.value), twin.map(p => p.value), sessionsPerYear),
+                returnGap: actual - target,
+                residualCash: paired.reduce((a, p, i) => a + cashPct(p) - cashPct(twin[i]), 0) / paired.length
+            };
+        }
+    }
+
     return { 
       strategy: stratStats, 
       benchmark: benchStats,
       rolling,
       yearlyActivity,
       yearlyReturns,
-      tenors
+      tenors,
+      costs: {
+        total: totalCost,
+        drag: windowAvgNav > 0 && windowYears > 0 ? (totalCost / windowAvgNav / windowYears) * 100 : 0,
+        byComponent
+      },
+      rounding
     };
   };
 
   const runBacktest = async () => {
     setIsRunning(true);
     setErrorMessage('');
+    setProgress(0);
     try {
         const strat = strategies.find(s => s.id === selectedStrategyId);
         if (!strat) throw new Error("Select a strategy");
@@ -204,8 +236,18 @@ export const BacktestEngine = () => {
             endDate = new Date().toISOString().split('T')[0];
         }
 
-        const sim = await StrategyEngine.runSimulation(runConfig, symbols, startDate, endDate);
-        setDetailedResult({ trades: sim.trades, regimeSwitches: sim.regimeSwitches });
+        const job = EnginePool.run({ strategy: runConfig, symbols, startDate, endDate }, (done, total) => setProgress(Math.round((done / total) * 100)));
+        // Whole-lot or minimum-size orders also run as the fractional ideal, to measure what rounding costs
+        const rounded = runConfig.fractionalShares === false || (runConfig.minTradeValue || 0) > 0;
+        const idealJob = rounded ? EnginePool.run({ strategy: { ...runConfig, fractionalShares: true, minTradeValue: 0 }, symbols, startDate, endDate }) : null;
+        // Taxed runs are charted against the same strategy untaxed
+        const preTaxJob = runConfig.taxEnabled ? EnginePool.run({ strategy: { ...runConfig, taxEnabled: false }, symbols, startDate, endDate }) : null;
+        jobRef.current = { promise: job.promise, cancel: () => { job.cancel(); idealJob?.cancel(); preTaxJob?.cancel(); } };
+        const [sim, ideal, preTax] = await Promise.all([job.promise, idealJob?.promise, preTaxJob?.promise]);
+        setDetailedResult({
+            trades: sim.trades, regimeSwitches: sim.regimeSwitches, subStrategies: sim.subStrategies, regimes: sim.regimes, rotations: sim.rotations, currency: sim.currency,
+            idealSeries: ideal?.series, preTaxSeries: preTax?.series, taxYears: sim.taxYears, liquidityWarnings: sim.liquidityWarnings, sessionsPerYear: sim.sessionsPerYear
+        });
         setResult({
             strategyId: strat.id, runDate: new Date().toISOString(),
             stats: { cagr: 0, maxDrawdown: 0, sharpeRatio: 0, totalReturn: 0, winRate: 0 },
@@ -213,12 +255,15 @@ export const BacktestEngine = () => {
         });
         setRange([0, sim.series.length - 1]);
     } catch (e: any) {
-        setErrorMessage(e.message);
+        if (e.message !== CANCELLED_MESSAGE) setErrorMessage(e.message);
     } finally {
+        jobRef.current = null;
         setIsRunning(false);
     }
   };
 
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
   const { filteredSeries, currentStats } = useMemo(() => {
     if (!result || range[1] <= range[0] || !detailedResult) return { filteredSeries: [], currentStats: null };
     const slice = result.navSeries.slice(range[0], range[1] + 1);
@@ -235,16 +280,37 @@ export const BacktestEngine = () => {
     if (!stratStart) stratStart = slice[0].value || 1;
     if (!bmStart) bmStart = slice[0].benchmarkValue || 1;
 
+    const preTax = new Map<string, number>((detailedResult.preTaxSeries || []).map(p => [p.date, p.value] as [string, number]));
+    const preTaxStart = preTax.get(slice[0].date) || 1;
+
     const normalized = slice.map(p => ({
       ...p,
       value: (p.value / stratStart) * 10000,
-      benchmarkValue: (p.benchmarkValue / bmStart) * 10000
+      benchmarkValue: (p.benchmarkValue / bmStart) * 10000,
+      afterTaxValue: p.afterTaxValue !== undefined ? (p.afterTaxValue / stratStart) * 10000 : undefined,
+      preTaxValue: preTax.has(p.date) ? (preTax.get(p.date)! / preTaxStart) * 10000 : undefined
     }));
 
-    const stats = calculateFullStats(normalized, detailedResult.trades, detailedResult.regimeSwitches);
+    const stats = calculateFullStats(normalized, slice, detailedResult.trades, detailedResult.regimeSwitches, detailedResult.sessionsPerYear, detailedResult.idealSeries);
     return { filteredSeries: normalized, currentStats: stats };
   }, [result, range, detailedResult]);
 
+  const hasVolScale = filteredSeries.some(p => p.volScale !== undefined);
+  const hasTax = filteredSeries.some(p => p.preTaxValue !== undefined);
+
+  const visibleTrades = useMemo(() => {
+    if (!detailedResult || filteredSeries.length === 0) return [];
+    const from = filteredSeries[0].date;
+    const to = filteredSeries[filteredSeries.length - 1].date;
+    return detailedResult.trades.filter(t => {
+        if (t.date < from || t.date > to) return false;
+        if (tradeFilter === 'All') return true;
+        if (tradeFilter === 'Stops') return !!t.trigger && (STOP_TRIGGERS as string[]).includes(t.trigger);
+        return t.trigger === tradeFilter;
+    });
+  }, [detailedResult, filteredSeries, tradeFilter]);
+  const tradeTriggers = useMemo(() => Array.from(new Set((detailedResult?.trades || []).map(t => t.trigger).filter((t): t is RebalanceTrigger => !!t))), [detailedResult]);
+
   return (
     <div className="space-y-6">
        <style>{`
@@ -303,9 +369,19 @@ export const BacktestEngine = () => {
                         />
                         Signal-Only Trading
                     </label>
-                    <Button onClick={runBacktest} disabled={isRunning} className="h-10 px-6 w-full sm:w-auto text-sm">
-                        {isRunning ? 'Simulating...' : 'Run Analysis'}
-                    </Button>
+                    {isRunning ? (
+                        <div className="flex gap-2">
+                            <div className="h-10 px-4 flex items-center gap-3 bg-slate-950 border border-slate-700 rounded-lg text-xs font-mono text-emerald-400 min-w-[140px]">
+                                <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+                                    <div className="h-full bg-emerald-500 transition-all duration-200" style={{ width: `${progress}%` }}></div>
+                                </div>
+                                {progress}%
+                            </div>
+                            <Button variant="danger" onClick={() => jobRef.current?.cancel()} className="h-10 px-4 text-sm">Cancel</Button>
+                        </div>
+                    ) : (
+                        <Button onClick={runBacktest} className="h-10 px-6 w-full sm:w-auto text-sm">Run Analysis</Button>
+                    )}
                 </div>
             </div>
        </div>
@@ -335,6 +411,26 @@ export const BacktestEngine = () => {
                     </Card>
                </div>
 
+               {currentStats.rounding && (
+                   <Card className="bg-slate-900/60 border-slate-800">
+                       <div className="text-[10px] text-slate-500 uppercase font-bold tracking-wider mb-3">Order Rounding vs Fractional Ideal</div>
+                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 font-mono">
+                           <div>
+                               <div className="text-[10px] text-slate-500 uppercase">Tracking Error (p.a.)</div>
+                               <div className="text-xl text-amber-400">{currentStats.rounding.trackingError.toFixed(2)}%</div>
+                           </div>
+                           <div>
+                               <div className="text-[10px] text-slate-500 uppercase">Return Gap</div>
+                               <div className={`text-xl ${currentStats.rounding.returnGap >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{currentStats.rounding.returnGap >= 0 ? '+' : ''}{currentStats.rounding.returnGap.toFixed(2)}%</div>
+                           </div>
+                           <div>
+                               <div className="text-[10px] text-slate-500 uppercase">Avg. Residual Cash</div>
+                               <div className="text-xl text-slate-200">{currentStats.rounding.residualCash.toFixed(2)}% <span className="text-xs text-slate-500">of NAV</span></div>
+                           </div>
+                       </div>
+                   </Card>
+               )}
+
                <div className="flex flex-col xl:flex-row justify-between items-center gap-6">
                     <div className="flex bg-slate-900 p-1 rounded-xl border border-slate-800 w-full xl:w-fit shadow-lg shadow-black/20">
                         {['Chart', 'Trades', 'Compare'].map(t => (
@@ -359,7 +455,7 @@ export const BacktestEngine = () => {
                    <div className="space-y-6">
                        <Card className="h-[450px] flex flex-col p-8 bg-slate-900/40 border-slate-800 shadow-xl">
                             <div className="flex justify-between items-center mb-8">
-                                <h3 className="text-sm font-medium text-slate-400 uppercase tracking-widest">Growth Comparison (Indexed @ 10,000)</h3>
+                                <h3 className="text-sm font-medium text-slate-400 uppercase tracking-widest">Growth Comparison (Indexed @ 10,000{detailedResult ? ` ${detailedResult.currency}` : ''})</h3>
                                 <div className="text-[10px] text-slate-500 uppercase font-mono tracking-tighter">Window Points: {filteredSeries.length}</div>
                             </div>
                             <div className="flex-1 min-h-0">
@@ -367,11 +463,15 @@ export const BacktestEngine = () => {
                                     <LineChart data={filteredSeries}>
                                         <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
                                         <XAxis dataKey="date" tick={{fontSize: 10, fill: '#64748b'}} minTickGap={60} />
-                                        <YAxis tick={{fontSize: 10, fill: '#64748b'}} domain={['auto', 'auto']} />
+                                        <YAxis yAxisId="nav" tick={{fontSize: 10, fill: '#64748b'}} domain={['auto', 'auto']} />
+                                        {hasVolScale && <YAxis yAxisId="scale" orientation="right" tick={{fontSize: 10, fill: '#f59e0b'}} domain={[0, 'auto']} width={40} unit="x" />}
                                         <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }} />
                                         <Legend verticalAlign="top" height={36}/>
-                                        <Line type="monotone" dataKey="value" stroke="#10b981" strokeWidth={2.5} dot={false} name="Strategy" isAnimationActive={false} />
-                                        <Line type="monotone" dataKey="benchmarkValue" stroke="#64748b" strokeWidth={1.5} dot={false} strokeDasharray="4 4" name="Benchmark" isAnimationActive={false} />
+                                        <Line yAxisId="nav" type="monotone" dataKey="value" stroke="#10b981" strokeWidth={2.5} dot={false} name="Strategy" isAnimationActive={false} />
+                                        <Line yAxisId="nav" type="monotone" dataKey="benchmarkValue" stroke="#64748b" strokeWidth={1.5} dot={false} strokeDasharray="4 4" name="Benchmark" isAnimationActive={false} />
+                                        {hasTax && <Line yAxisId="nav" type="monotone" dataKey="afterTaxValue" stroke="#f43f5e" strokeWidth={1.5} dot={false} name="After Tax" isAnimationActive={false} />}
+                                        {hasTax && <Line yAxisId="nav" type="monotone" dataKey="preTaxValue" stroke="#38bdf8" strokeWidth={1.5} dot={false} strokeDasharray="2 2" name="Pre-Tax" isAnimationActive={false} />}
+                                        {hasVolScale && <Line yAxisId="scale" type="stepAfter" dataKey="volScale" stroke="#f59e0b" strokeWidth={1} dot={false} name="Vol Scale" isAnimationActive={false} />}
                                     </LineChart>
                                 </ResponsiveContainer>
                             </div>
@@ -386,8 +486,12 @@ export const BacktestEngine = () => {
                                         <YAxis domain={[0, 100]} tick={{fontSize: 9, fill: '#64748b'}} width={30} unit="%" />
                                         <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }} formatter={(v: number) => [`${v}%`, '']} />
                                         <Legend verticalAlign="top" height={36}/>
-                                        <Area type="monotone" dataKey="riskOn" stackId="1" stroke="#059669" fill="#10b981" fillOpacity={0.4} name="Risk On %" isAnimationActive={false} />
-                                        <Area type="monotone" dataKey="riskOff" stackId="1" stroke="#475569" fill="#334155" fillOpacity={0.6} name="Risk Off %" isAnimationActive={false} />
+                                        {detailedResult?.regimes ? detailedResult.regimes.map((r, k) => (
+                                            <Area key={r.id} type="monotone" dataKey={(p: SimResultPoint) => p.regimeWeights?.[r.id] ?? 0} stackId="1" stroke={REGIME_COLORS[k % REGIME_COLORS.length]} fill={REGIME_COLORS[k % REGIME_COLORS.length]} fillOpacity={0.45} name={`${r.name} %`} isAnimationActive={false} />
+                                        )) : (<>
+                                            <Area type="monotone" dataKey="riskOn" stackId="1" stroke="#059669" fill="#10b981" fillOpacity={0.4} name="Risk On %" isAnimationActive={false} />
+                                            <Area type="monotone" dataKey="riskOff" stackId="1" stroke="#475569" fill="#334155" fillOpacity={0.6} name="Risk Off %" isAnimationActive={false} />
+                                        </>)}
                                     </AreaChart>
                                 </ResponsiveContainer>
                             </div>
@@ -476,11 +580,163 @@ export const BacktestEngine = () => {
                                 </table>
                             </Card>
                        </div>
+
+                       <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                           <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Rebalance Activity &amp; Turnover</div>
+                           <table className="w-full text-left text-xs font-mono">
+                               <thead className="bg-slate-900/50 text-slate-400">
+                                   <tr><th className="px-6 py-3">Year</th><th className="px-6 py-3">Rebalances</th><th className="px-6 py-3">Band Triggered</th><th className="px-6 py-3">Trades</th><th className="px-6 py-3">Regime Switches</th><th className="px-6 py-3 text-emerald-400">Turnover</th><th className="px-6 py-3 text-amber-400">Cost Drag</th></tr>
+                               </thead>
+                               <tbody className="divide-y divide-slate-800">
+                                   {currentStats.yearlyActivity.map(yr => (
+                                       <tr key={yr.year} className="hover:bg-slate-800/30">
+                                           <td className="px-6 py-4 font-bold text-slate-300">{yr.year}</td>
+                                           <td className="px-6 py-4 text-slate-200">{yr.rebalances}</td>
+                                           <td className="px-6 py-4 text-amber-400">{yr.bandRebalances}</td>
+                                           <td className="px-6 py-4 text-slate-400">{yr.totalTrades}</td>
+                                           <td className="px-6 py-4 text-slate-400">{yr.switches}</td>
+                                           <td className="px-6 py-4 text-emerald-400 font-bold">{yr.turnover.toFixed(1)}%</td>
+                                           <td className="px-6 py-4 text-amber-400">{yr.costDrag.toFixed(2)}%</td>
+                                       </tr>
+                                   ))}
+                               </tbody>
+                           </table>
+                       </Card>
+
+                       <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                           <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Trading Costs</div>
+                           <div className="grid grid-cols-2 md:grid-cols-4 gap-6 p-6 text-xs font-mono">
+                               <div>
+                                   <div className="text-slate-500 uppercase tracking-widest text-[10px]">Total Paid</div>
+                                   <div className="text-lg text-slate-200 font-bold">{currentStats.costs.total.toLocaleString(undefined, { maximumFractionDigits: 0 })} <span className="text-xs text-slate-500">{detailedResult?.currency}</span></div>
+                               </div>
+                               <div>
+                                   <div className="text-slate-500 uppercase tracking-widest text-[10px]">Cost Drag</div>
+                                   <div className="text-lg text-amber-400 font-bold">{currentStats.costs.drag.toFixed(2)}% <span className="text-xs text-slate-500">p.a.</span></div>
+                               </div>
+                               <div className="col-span-2">
+                                   <div className="text-slate-500 uppercase tracking-widest text-[10px] mb-1">Breakdown</div>
+                                   {Object.keys(currentStats.costs.byComponent).filter(k => currentStats.costs.byComponent[k] > 0).map(k => (
+                                       <div key={k} className="flex justify-between text-slate-400">
+                                           <span>{k}</span>
+                                           <span className="text-slate-200">{currentStats.costs.byComponent[k].toLocaleString(undefined, { maximumFractionDigits: 2 })} <span className="text-slate-500">({(currentStats.costs.byComponent[k] / (currentStats.costs.total || 1) * 100).toFixed(1)}%)</span></span>
+                                       </div>
+                                   ))}
+                                   {currentStats.costs.total <= 0 && <span className="text-slate-500">---</span>}
+                               </div>
+                           </div>
+                       </Card>
+
+                       {detailedResult?.liquidityWarnings && detailedResult.liquidityWarnings.length > 0 && (
+                            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                                <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Liquidity Warnings (Full Run) <span className="text-slate-500 font-mono">({detailedResult.liquidityWarnings.length})</span></div>
+                                <div className="max-h-96 overflow-y-auto">
+                                <table className="w-full text-left text-xs font-mono">
+                                    <thead className="bg-slate-900/50 text-slate-400">
+                                        <tr><th className="px-6 py-3">Order Date</th><th className="px-6 py-3">Ticker</th><th className="px-6 py-3 text-right">Shares</th><th className="px-6 py-3 text-right">ADV</th><th className="px-6 py-3 text-right text-amber-400">% of ADV</th><th className="px-6 py-3 text-right">Sessions</th><th className="px-6 py-3 text-right text-red-400">Unfilled</th></tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-800">
+                                        {detailedResult.liquidityWarnings.slice().reverse().map((w, idx) => (
+                                            <tr key={idx} className="hover:bg-slate-800/30">
+                                                <td className="px-6 py-4 text-slate-400">{w.date}</td>
+                                                <td className="px-6 py-4 text-emerald-400 font-bold">{w.ticker}</td>
+                                                <td className="px-6 py-4 text-right text-slate-200">{w.shares.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                                <td className="px-6 py-4 text-right text-slate-400">{w.adv.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                                <td className="px-6 py-4 text-right text-amber-400 font-bold">{w.participationPct.toFixed(1)}%</td>
+                                                <td className="px-6 py-4 text-right text-slate-300">{w.sessions}</td>
+                                                <td className="px-6 py-4 text-right text-red-400">{w.unfilled > 0 ? w.unfilled.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '---'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                </div>
+                            </Card>
+                       )}
+
+                       {detailedResult?.taxYears && (
+                            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                                <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Realized Gains &amp; Tax (Full Run, {detailedResult.currency})</div>
+                                <table className="w-full text-left text-xs font-mono">
+                                    <thead className="bg-slate-900/50 text-slate-400">
+                                        <tr><th className="px-6 py-3">Year</th><th className="px-6 py-3">Short-Term</th><th className="px-6 py-3">Long-Term</th><th className="px-6 py-3">Loss Carried</th><th className="px-6 py-3 text-red-400">Tax</th><th className="px-6 py-3">Paid On</th></tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-800">
+                                        {detailedResult.taxYears.map(y => (
+                                            <tr key={y.year} className="hover:bg-slate-800/30">
+                                                <td className="px-6 py-4 font-bold text-slate-300">{y.year}</td>
+                                                <td className={`px-6 py-4 ${y.shortTermGains >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{y.shortTermGains.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                                <td className={`px-6 py-4 ${y.longTermGains >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{y.longTermGains.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                                <td className="px-6 py-4 text-slate-400">{y.lossCarryForward < 0 ? y.lossCarryForward.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '---'}</td>
+                                                <td className="px-6 py-4 text-red-400 font-bold">{y.tax.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                                                <td className="px-6 py-4 text-slate-500">{y.settledOn || 'Accrued'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </Card>
+                       )}
+
+                       {detailedResult?.subStrategies && detailedResult.subStrategies.length > 0 && (
+                            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                                <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Sub-Strategy Attribution (Full Run)</div>
+                                <table className="w-full text-left text-xs font-mono">
+                                    <thead className="bg-slate-900/50 text-slate-400">
+                                        <tr><th className="px-6 py-3">Strategy</th><th className="px-6 py-3">Target Wt</th><th className="px-6 py-3">Final Wt</th><th className="px-6 py-3 text-emerald-400">Contribution</th></tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-800">
+                                        {detailedResult.subStrategies.map(s => (
+                                            <tr key={s.strategyId} className="hover:bg-slate-800/30">
+                                                <td className="px-6 py-4 font-bold text-slate-300">{s.name}</td>
+                                                <td className="px-6 py-4 text-slate-400">{s.targetWeight.toFixed(1)}%</td>
+                                                <td className="px-6 py-4 text-slate-200">{s.finalWeight.toFixed(1)}%</td>
+                                                <td className={`px-6 py-4 font-bold ${s.contribution >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{s.contribution >= 0 ? '+' : ''}{s.contribution.toFixed(2)}%</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </Card>
+                       )}
+
+                       {detailedResult?.rotations && (
+                            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+                                <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Rotation History <span className="text-slate-500 font-mono">({detailedResult.rotations.length})</span></div>
+                                <div className="max-h-96 overflow-y-auto">
+                                <table className="w-full text-left text-xs font-mono">
+                                    <thead className="bg-slate-900/50 text-slate-400 sticky top-0">
+                                        <tr><th className="px-6 py-3">Date</th><th className="px-6 py-3 text-emerald-400">Holdings (Weight / Score)</th><th className="px-6 py-3">Risk Off</th><th className="px-6 py-3">Passed Over</th></tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-800">
+                                        {detailedResult.rotations.slice().reverse().map(r => (
+                                            <tr key={r.date} className="hover:bg-slate-800/30">
+                                                <td className="px-6 py-4 text-slate-400">{r.date}</td>
+                                                <td className="px-6 py-4 text-slate-200">
+                                                    {r.picks.map(p => <div key={p.ticker}><span className="text-emerald-400 font-bold">{p.ticker}</span> {p.weight.toFixed(1)}% <span className="text-slate-500">/ {p.score >= 0 ? '+' : ''}{p.score.toFixed(1)}%</span></div>)}
+                                                    {r.picks.length === 0 && <span className="text-slate-500">---</span>}
+                                                </td>
+                                                <td className={`px-6 py-4 font-bold ${r.riskOffPct > 0 ? 'text-amber-400' : 'text-slate-500'}`}>{r.riskOffPct.toFixed(1)}%</td>
+                                                <td className="px-6 py-4 text-slate-500">
+                                                    {Object.keys(r.scores).filter(t => !r.picks.some(p => p.ticker === t)).sort((a, b) => r.scores[b] - r.scores[a]).map(t => `${t} ${r.scores[t] >= 0 ? '+' : ''}${r.scores[t].toFixed(1)}%`).join(', ') || '---'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                </div>
+                            </Card>
+                       )}
                    </div>
                )}
 
                {activeTab === 'Trades' && detailedResult && (
                    <Card className="p-0 overflow-hidden border-slate-800 shadow-2xl bg-slate-900/40">
+                       <div className="p-4 bg-slate-800/50 border-b border-slate-700 flex items-center justify-between gap-4">
+                           <span className="font-bold text-xs uppercase tracking-widest text-slate-200">Trade Log <span className="text-slate-500 font-mono">({visibleTrades.length})</span></span>
+                           <Select value={tradeFilter} onChange={e => setTradeFilter(e.target.value as typeof tradeFilter)} className="w-56" options={[
+                               { value: 'All', label: 'All Triggers' },
+                               { value: 'Stops', label: 'Protective Stops Only' },
+                               ...tradeTriggers.map(t => ({ value: t, label: t }))
+                           ]} />
+                       </div>
                        <div className="overflow-x-auto">
                            <table className="w-full text-left text-xs font-mono">
                                <thead className="bg-slate-800 text-slate-400 uppercase font-bold sticky top-0">
@@ -488,25 +744,31 @@ export const BacktestEngine = () => {
                                        <th className="px-6 py-4">Date</th>
                                        <th className="px-6 py-4">Ticker</th>
                                        <th className="px-6 py-4 text-center">Action</th>
+                                       <th className="px-6 py-4">Trigger</th>
+                                       {detailedResult.regimes && <th className="px-6 py-4">Regime</th>}
                                        <th className="px-6 py-4 text-right text-emerald-400">Risk On %</th>
                                        <th className="px-6 py-4 text-right text-slate-400">Risk Off %</th>
                                        <th className="px-6 py-4 text-right">Shares</th>
-                                       <th className="px-6 py-4 text-right">Price</th>
-                                       <th className="px-6 py-4 text-right">Notional</th>
+                                       <th className="px-6 py-4 text-right">Price ({detailedResult.currency})</th>
+                                       <th className="px-6 py-4 text-right">Notional ({detailedResult.currency})</th>
+                                       <th className="px-6 py-4 text-right text-amber-400">Costs</th>
                                    </tr>
                                </thead>
                                <tbody className="divide-y divide-slate-800">
-                                   {detailedResult.trades
-                                    .filter(t => t.date >= filteredSeries[0].date && t.date <= filteredSeries[filteredSeries.length-1].date)
-                                    .slice().reverse().map((t, idx) => (
+                                   {visibleTrades.slice().reverse().map((t, idx) => (
                                        <tr key={idx} className="hover:bg-slate-800/40 transition-colors group">
                                            <td className="px-6 py-4 text-slate-400">{t.date}</td>
                                            <td className="px-6 py-4 text-emerald-400 font-bold">{t.ticker}</td>
                                            <td className="px-6 py-4 text-center">
-                                               <span className={`px-2 py-0.5 rounded font-bold text-[10px] ${t.type === 'BUY' ? 'bg-emerald-900/30 text-emerald-500' : 'bg-red-900/30 text-red-500'}`}>
+                                               <span className={`px-2 py-0.5 rounded font-bold text-[10px] ${t.type === 'BUY' || t.type === 'COVER' ? 'bg-emerald-900/30 text-emerald-500' : 'bg-red-900/30 text-red-500'}`}>
                                                    {t.type}
                                                </span>
                                            </td>
+                                           <td className="px-6 py-4 text-slate-400">
+                                               {t.trigger || '---'}
+                                               {t.breach && <div className="text-[10px] text-amber-400">{t.breach.asset} {t.breach.actualPct}% vs {t.breach.targetPct}%</div>}
+                                           </td>
+                                           {detailedResult.regimes && <td className="px-6 py-4 text-sky-400 font-bold">{t.regime || '---'}</td>}
                                            <td className="px-6 py-4 text-right text-emerald-500 font-bold">
                                                {t.riskOnPct !== undefined ? `${t.riskOnPct}%` : '---'}
                                            </td>
@@ -516,11 +778,17 @@ export const BacktestEngine = () => {
                                            <td className="px-6 py-4 text-right text-slate-300">
                                                {t.shares.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                                            </td>
-                                           <td className="px-6 py-4 text-right text-slate-300">
-                                               ${t.price.toFixed(2)}
+                                           <td className="px-6 py-4 text-right text-slate-300" title={t.execution ? t.execution.fills.map(f => `${f.date}: ${f.shares.toFixed(2)} @ ${f.price.toFixed(2)}`).join('\n') : undefined}>
+                                               {t.price.toFixed(2)}
+                                               {t.execution && t.execution.model !== 'SameBar' && (
+                                                   <div className="text-[10px] text-sky-400">{EXECUTION_MODEL_LABELS[t.execution.model]}{t.execution.sessions > 1 ? ` · ${t.execution.fills.length}/${t.execution.sessions} fills` : ''}</div>
+                                               )}
                                            </td>
                                            <td className="px-6 py-4 text-right text-white font-bold">
-                                               ${t.value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                               {t.value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                           </td>
+                                           <td className="px-6 py-4 text-right text-amber-400" title={t.costs ? Object.entries(t.costs).map(([k, v]) => `${k}: ${Number(v).toFixed(2)}`).join('\n') : undefined}>
+                                               {t.cost !== undefined ? t.cost.toFixed(2) : '---'}
                                            </td>
                                        </tr>
                                    ))}
@@ -3,6 +3,9 @@ import React, { useState, useEffect } from 'react';
 import { Card, Button, Select, Input } from '../components/ui';
 import { StorageService } from '../services/storage';
 import { MarketDataService } from '../services/marketData';
+import { FxService, FxPair } from '../services/fx';
+import { CorporateActions } from '../services/corporateActions';
+import { SymbolLists } from '../services/symbolLists';
 import { MARKET_DATA_PROVIDERS } from '../constants';
 import { SymbolData } from '../types';
 
@@ -11,6 +14,7 @@ interface DataStatus {
     count?: number;
     start?: string;
     end?: string;
+    events?: number;
 }
 
 export const MarketDataManager = () => {
@@ -20,8 +24,12 @@ export const MarketDataManager = () => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
   const [symbols, setSymbols] = useState<SymbolData[]>([]);
+  const [fxPairs, setFxPairs] = useState<FxPair[]>([]);
   const [dataStatus, setDataStatus] = useState<Record<string, DataStatus>>({});
   const [loadingStatus, setLoadingStatus] = useState(true);
+  const [importTicker, setImportTicker] = useState('');
+  const [applyImportedSplits, setApplyImportedSplits] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
 
   useEffect(() => {
       loadSymbolsAndStatus();
@@ -29,25 +37,29 @@ export const MarketDataManager = () => {
 
   const loadSymbolsAndStatus = async () => {
       const s = StorageService.getSymbols();
+      const pairs = FxService.requiredPairs(s, StorageService.getStrategies());
       setSymbols(s);
-      await checkDataStatus(s);
+      setFxPairs(pairs);
+      await checkDataStatus([...s.filter(sym => !sym.isList).map(sym => sym.ticker), ...pairs.map(p => p.key)]);
   };
 
-  const checkDataStatus = async (syms: SymbolData[]) => {
+  const checkDataStatus = async (keys: string[]) => {
       setLoadingStatus(true);
       const status: Record<string, DataStatus> = {};
-      for (const s of syms) {
-          const data = await StorageService.getMarketData(s.ticker);
+      for (const key of keys) {
+          const data = await StorageService.getMarketData(key);
           if (data && data.length > 0) {
               const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
-              status[s.ticker] = { 
+              const actions = await StorageService.getCorporateActions(key);
+              status[key] = { 
                   exists: true, 
                   count: data.length,
                   start: sorted[0].date,
-                  end: sorted[sorted.length - 1].date
+                  end: sorted[sorted.length - 1].date,
+                  events: actions.length
               };
           } else {
-              status[s.ticker] = { exists: false };
+              status[key] = { exists: false };
           }
       }
       setDataStatus(status);
@@ -60,9 +72,16 @@ export const MarketDataManager = () => {
     setStatusMessage(onlyMissing ? 'Identifying missing assets...' : 'Synchronizing local history...');
 
     try {
-        let targets = symbols.filter(s => !s.isList && s.ticker);
+        // Lists have no history of their own; members of lists that strategies use go first.
+        // FX pairs are stored under their own key but fetched by the provider's pair ticker.
+        const listMembers = SymbolLists.usedBy(StorageService.getStrategies(), symbols).flatMap(l => SymbolLists.members(l, symbols));
+        const assetTickers = Array.from(new Set([...listMembers, ...symbols.filter(s => !s.isList)].map(s => s.ticker).filter(t => t)));
+        let targets = [
+            ...assetTickers.map(t => ({ key: t, fetchTicker: t })),
+            ...fxPairs.map(p => ({ key: p.key, fetchTicker: FxService.providerTicker(p, provider) }))
+        ];
         if (onlyMissing) {
-            targets = targets.filter(s => !dataStatus[s.ticker]?.exists);
+            targets = targets.filter(t => !dataStatus[t.key]?.exists);
         }
 
         if (targets.length === 0) {
@@ -72,16 +91,20 @@ export const MarketDataManager = () => {
         }
 
         for (let i = 0; i < targets.length; i++) {
-            const sym = targets[i];
-            setStatusMessage(`Downloading & Cleaning ${sym.ticker} (${i+1}/${targets.length})...`);
+            const target = targets[i];
+            setStatusMessage(`Downloading & Cleaning ${target.key} (${i+1}/${targets.length})...`);
             try {
                 // The MarketDataService.fetchHistory now includes the cleaning pipeline
-                const data = await MarketDataService.fetchHistory(sym.ticker, 'max', '1d', provider, customApiKey);
+                const { data, actions } = await MarketDataService.fetchHistoryWithActions(target.fetchTicker, 'max', '1d', provider, customApiKey);
                 if (data.length > 0) {
-                    await StorageService.saveMarketData(sym.ticker, data);
+                    // Events imported from CSV stay; the provider's replace them only on the same date and type
+                    const stored = await StorageService.getCorporateActions(target.key);
+                    const merged = CorporateActions.merge(stored, actions);
+                    await StorageService.saveMarketData(target.key, merged.length > actions.length ? CorporateActions.withAdjustedClose(data, merged) : data);
+                    if (actions.length > 0) await StorageService.saveCorporateActions(target.key, merged);
                 }
             } catch (e) {
-                console.error(`Download failed: ${sym.ticker}`, e);
+                console.error(`Download failed: ${target.key}`, e);
             }
             setProgress(Math.round(((i + 1) / targets.length) * 100));
             await new Promise(r => setTimeout(r, 200));
@@ -96,6 +119,33 @@ export const MarketDataManager = () => {
     }
   };
 
+  const handleActionsImport = async (file: File) => {
+    if (!importTicker) {
+        setImportMessage('Select a symbol first.');
+        return;
+    }
+    const incoming = CorporateActions.parseCsv(await file.text());
+    if (incoming.length === 0) {
+        setImportMessage('No dividend or split rows found. Expected: date,type,value');
+        return;
+    }
+    const existing = await StorageService.getCorporateActions(importTicker);
+    const merged = CorporateActions.merge(existing, incoming);
+    await StorageService.saveCorporateActions(importTicker, merged);
+
+    // Stored prices are split-adjusted; only splits new to this symbol are applied to them
+    const history = await StorageService.getMarketData(importTicker);
+    if (history && history.length > 0) {
+        const newSplits = applyImportedSplits
+            ? incoming.filter(a => a.type === 'SPLIT' && !existing.some(e => e.type === 'SPLIT' && e.date === a.date))
+            : [];
+        const adjusted = CorporateActions.withAdjustedClose(CorporateActions.adjustForSplits(history, newSplits), merged);
+        await StorageService.saveMarketData(importTicker, adjusted);
+    }
+    setImportMessage(`Imported ${incoming.length} events for ${importTicker}.`);
+    await loadSymbolsAndStatus();
+  };
+
   return (
     <div className="space-y-6">
        <div>
@@ -152,6 +202,35 @@ export const MarketDataManager = () => {
                     </Button>
                 </div>
 
+                <div className="p-5 bg-slate-950/50 rounded-xl border border-slate-800 space-y-4">
+                    <div className="space-y-1">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Dividends & Splits CSV</h3>
+                        <p className="text-[10px] text-slate-500">Rows of <span className="font-mono">date,type,value</span> e.g. <span className="font-mono">2024-03-01,DIVIDEND,0.31</span> or <span className="font-mono">2021-07-20,SPLIT,4:1</span>. Adjusted closes are rebuilt after import.</p>
+                    </div>
+                    <Select
+                        label="Symbol"
+                        value={importTicker}
+                        onChange={e => setImportTicker(e.target.value)}
+                        options={[{ value: '', label: 'Select symbol...' }, ...symbols.filter(s => !s.isList).map(s => ({ value: s.ticker, label: s.ticker }))]}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        <input type="checkbox" checked={applyImportedSplits} onChange={e => setApplyImportedSplits(e.target.checked)} className="rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500" />
+                        Stored prices are unadjusted (apply new splits)
+                    </label>
+                    <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        disabled={isDownloading}
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleActionsImport(file);
+                            e.target.value = '';
+                        }}
+                        className="block w-full text-xs text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded file:border-0 file:bg-slate-800 file:text-slate-200 hover:file:bg-slate-700"
+                    />
+                    {importMessage && <p className="text-[10px] text-emerald-400 font-mono">{importMessage}</p>}
+                </div>
+
                 {isDownloading && (
                     <div className="space-y-3 p-4 bg-emerald-900/10 rounded-lg border border-emerald-500/20">
                         <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
@@ -165,7 +244,7 @@ export const MarketDataManager = () => {
             <Card className="lg:col-span-2 h-[600px] flex flex-col bg-slate-900/80 backdrop-blur-sm overflow-hidden">
                 <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
                     <h3 className="font-semibold text-slate-200">Inventory Analysis</h3>
-                    <span className="text-[10px] text-slate-500 font-mono">COUNT: {symbols.length}</span>
+                    <span className="text-[10px] text-slate-500 font-mono">COUNT: {symbols.length + fxPairs.length}</span>
                 </div>
                 
                 <div className="flex-1 overflow-auto custom-scrollbar">
@@ -183,14 +262,30 @@ export const MarketDataManager = () => {
                                     <th className="px-3 py-3 border-b border-slate-800 text-right">Records</th>
                                     <th className="px-3 py-3 border-b border-slate-800">Start Date</th>
                                     <th className="px-3 py-3 border-b border-slate-800">End Date</th>
+                                    <th className="px-3 py-3 border-b border-slate-800 text-right">Events</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-slate-800/50">
-                                {symbols.map(s => {
-                                    const status = dataStatus[s.ticker];
+                                {[...symbols.map(s => ({ id: s.id, key: s.ticker, label: s.ticker, list: s.isList ? s : undefined })), ...fxPairs.map(p => ({ id: p.key, key: p.key, label: `${p.from}/${p.to} (FX)`, list: undefined }))].map(s => {
+                                    const status = dataStatus[s.key];
+                                    if (s.list) {
+                                        const members = SymbolLists.members(s.list, symbols);
+                                        const synced = members.filter(m => dataStatus[m.ticker]?.exists).length;
+                                        return (
+                                            <tr key={s.id} className="hover:bg-slate-800/30 transition-colors">
+                                                <td className="px-3 py-2.5 font-bold text-slate-200">{s.label} (LIST)</td>
+                                                <td className="px-3 py-2.5 text-center">
+                                                    <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold ${synced === members.length ? 'bg-emerald-900/30 text-emerald-500' : 'bg-amber-900/30 text-amber-500'}`}>
+                                                        {synced}/{members.length} MEMBERS
+                                                    </span>
+                                                </td>
+                                                <td colSpan={4} className="px-3 py-2.5 text-slate-500 truncate">{members.map(m => m.ticker).join(', ') || '---'}</td>
+                                            </tr>
+                                        );
+                                    }
                                     return (
                                         <tr key={s.id} className="hover:bg-slate-800/30 transition-colors">
-                                            <td className="px-3 py-2.5 font-bold text-slate-200">{s.ticker}</td>
+                                            <td className="px-3 py-2.5 font-bold text-slate-200">{s.label}</td>
                                             <td className="px-3 py-2.5 text-center">
                                                 <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold ${status?.exists ? 'bg-emerald-900/30 text-emerald-500' : 'bg-red-900/30 text-red-500'}`}>
                                                     {status?.exists ? 'SYNCED' : 'MISSING'}
@@ -205,6 +300,9 @@ export const MarketDataManager = () => {
                                             <td className="px-3 py-2.5 text-slate-400">
                                                 {status?.end || '---'}
                                             </td>
+                                            <td className="px-3 py-2.5 text-right text-slate-400">
+                                                {status?.events || '---'}
+                                            </td>
                                         </tr>
                                     );
                                 })}
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, Button, Select, Input } from '../components/ui';
+import { StorageService } from '../services/storage';
+import { RuleRegistry } from '../services/rules';
+import { Optimizer, OptimizerConfig, OptimizerResult, ParamSweep, MAX_CANDIDATES } from '../services/optimizer';
+import { PerformanceObjective } from '../services/metrics';
+import { EngineJob, CANCELLED_MESSAGE } from '../services/enginePool';
+import { Strategy, SymbolData, RebalanceFrequency } from '../types';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+
+interface SweepInput {
+  enabled: boolean;
+  from: number;
+  to: number;
+  step: number;
+}
+
+const sweepKey = (ruleIndex: number, key: string) => `${ruleIndex}:${key}`;
+
+const parseDelays = (text: string): number[] =>
+  Array.from(new Set(text.split(',').map(v => parseInt(v.trim(), 10)).filter(v => isFinite(v) && v >= 0))).sort((a, b) => a - b);
+
+export const WalkForwardOptimizer = () => {
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [symbols, setSymbols] = useState<SymbolData[]>([]);
+  const [selectedStrategyId, setSelectedStrategyId] = useState('');
+
+  const [search, setSearch] = useState<'Grid' | 'Random'>('Grid');
+  const [sampleCount, setSampleCount] = useState(50);
+  const [objective, setObjective] = useState<PerformanceObjective>('Sharpe');
+  const [inSampleDays, setInSampleDays] = useState(756);
+  const [outOfSampleDays, setOutOfSampleDays] = useState(252);
+  const [sweeps, setSweeps] = useState<Record<string, SweepInput>>({});
+  const [freqs, setFreqs] = useState<RebalanceFrequency[]>([]);
+  const [delaysText, setDelaysText] = useState('');
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const jobRef = useRef<EngineJob<OptimizerResult> | null>(null);
+
+  useEffect(() => {
+    // Meta strategies carry no rules of their own to sweep
+    const s = StorageService.getStrategies().filter(st => st.type !== 'Meta');
+    setStrategies(s);
+    setSymbols(StorageService.getSymbols());
+    if (s.length > 0) setSelectedStrategyId(s[0].id);
+  }, []);
+
+  const strategy = strategies.find(s => s.id === selectedStrategyId);
+  const strategyRules = useMemo(() => RuleRegistry.forStrategy(strategy?.rules), [strategy]);
+
+  useEffect(() => {
+    setSweeps({});
+    setFreqs([]);
+    setDelaysText('');
+    setResult(null);
+  }, [selectedStrategyId]);
+
+  const config: OptimizerConfig = useMemo(() => {
+    const paramSweeps: ParamSweep[] = [];
+    strategyRules.forEach((r, ruleIndex) => {
+      RuleRegistry.resolve(r.ruleId).paramSchema.forEach(spec => {
+        const input = sweeps[sweepKey(ruleIndex, spec.key)];
+        if (!input?.enabled) return;
+        const values = spec.options ? spec.options.map(o => o.value) : Optimizer.rangeValues(input.from, input.to, input.step);
+        paramSweeps.push({ ruleIndex, key: spec.key, values });
+      });
+    });
+    return {
+      search, sampleCount, paramSweeps,
+      rebalanceFreqs: freqs,
+      executionDelays: parseDelays(delaysText),
+      inSampleDays, outOfSampleDays, objective
+    };
+  }, [strategyRules, sweeps, search, sampleCount, freqs, delaysText, inSampleDays, outOfSampleDays, objective]);
+
+  const gridSize = strategy ? Optimizer.gridSize(strategy, config) : 0;
+  const runCount = search === 'Grid' ? gridSize : Math.min(gridSize, sampleCount, MAX_CANDIDATES);
+
+  const toggleSweep = (ruleIndex: number, key: string, defaultValue: number, step: number) => {
+    const k = sweepKey(ruleIndex, key);
+    const current = sweeps[k];
+    setSweeps({
+      ...sweeps,
+      [k]: current
+        ? { ...current, enabled: !current.enabled }
+        : { enabled: true, from: defaultValue, to: defaultValue + step * 4, step }
+    });
+  };
+
+  const updateSweep = (ruleIndex: number, key: string, field: 'from' | 'to' | 'step', value: number) => {
+    const k = sweepKey(ruleIndex, key);
+    setSweeps({ ...sweeps, [k]: { ...sweeps[k], [field]: value } });
+  };
+
+  const toggleFreq = (f: RebalanceFrequency) => {
+    setFreqs(freqs.includes(f) ? freqs.filter(x => x !== f) : [...freqs, f]);
+  };
+
+  const runOptimizer = async () => {
+    if (!strategy) return;
+    setIsRunning(true);
+    setErrorMessage('');
+    setProgress(0);
+    try {
+      const job = Optimizer.start(strategy, symbols, config, (done, total) => setProgress(Math.round((done / total) * 100)));
+      jobRef.current = job;
+      setResult(await job.promise);
+    } catch (e: any) {
+      if (e.message !== CANCELLED_MESSAGE) setErrorMessage(e.message || 'Optimization failed.');
+    } finally {
+      jobRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const candidateLabel = (id: number) => result?.candidates.find(c => c.id === id)?.label || `#${id}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white tracking-tight">Walk-Forward Optimizer</h2>
+        <p className="text-slate-400">Sweep rule parameters, rebalance frequency and delay over rolling in-sample / out-of-sample windows.</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="space-y-4 bg-slate-900/60">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Setup</h3>
+          <Select label="Strategy" value={selectedStrategyId} onChange={e => setSelectedStrategyId(e.target.value)} options={strategies.map(s => ({ value: s.id, label: s.name }))} />
+          <div className="grid grid-cols-2 gap-2">
+            <Select label="Search" value={search} onChange={e => setSearch(e.target.value as 'Grid' | 'Random')} options={[
+              { value: 'Grid', label: 'Full Grid' },
+              { value: 'Random', label: 'Random Sample' }
+            ]} />
+            <Select label="Objective" value={objective} onChange={e => setObjective(e.target.value as PerformanceObjective)} options={[
+              { value: 'CAGR', label: 'CAGR' },
+              { value: 'Sharpe', label: 'Sharpe' },
+              { value: 'Calmar', label: 'Calmar' }
+            ]} />
+          </div>
+          {search === 'Random' && (
+            <Input type="number" label="Samples" value={sampleCount} onChange={e => setSampleCount(Math.max(1, Number(e.target.value)))} />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="number" label="In-Sample (Days)" value={inSampleDays} onChange={e => setInSampleDays(Number(e.target.value))} />
+            <Input type="number" label="Out-of-Sample (Days)" value={outOfSampleDays} onChange={e => setOutOfSampleDays(Number(e.target.value))} />
+          </div>
+          <Input label="Execution Delays (e.g. 0,1,2)" value={delaysText} onChange={e => setDelaysText(e.target.value)} placeholder={`Keep ${strategy?.executionDelay ?? 0}`} />
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1.5">Rebalance Frequencies</label>
+            <div className="flex flex-wrap gap-1.5">
+              {Object.values(RebalanceFrequency).map(f => (
+                <button key={f} onClick={() => toggleFreq(f)} className={`text-[10px] px-2 py-1 rounded border transition-colors ${freqs.includes(f) ? 'bg-emerald-900/40 text-emerald-400 border-emerald-500/30' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}>{f}</button>
+              ))}
+            </div>
+            {freqs.length === 0 && <p className="text-[10px] text-slate-600 mt-1">None selected: keeps {strategy?.rebalanceFreq}.</p>}
+          </div>
+
+          <div className="pt-2 border-t border-slate-800 space-y-3">
+            <div className="flex justify-between text-[10px] font-mono uppercase">
+              <span className="text-slate-500">Grid: {gridSize.toLocaleString()}</span>
+              <span className={runCount > MAX_CANDIDATES || (search === 'Grid' && gridSize > MAX_CANDIDATES) ? 'text-red-400' : 'text-emerald-400'}>Runs: {runCount.toLocaleString()} / {MAX_CANDIDATES}</span>
+            </div>
+            {isRunning ? (
+              <div className="space-y-2">
+                <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                </div>
+                <Button variant="danger" className="w-full text-sm py-1.5" onClick={() => jobRef.current?.cancel()}>Cancel ({progress}%)</Button>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={runOptimizer} disabled={!strategy}>Run Optimization</Button>
+            )}
+            {errorMessage && <p className="text-xs text-red-400">{errorMessage}</p>}
+          </div>
+        </Card>
+
+        <Card className="lg:col-span-2 space-y-4 bg-slate-900/60">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Parameter Sweeps</h3>
+          {strategyRules.map((r, ruleIndex) => {
+            const rule = RuleRegistry.resolve(r.ruleId);
+            const current = RuleRegistry.resolveParams(rule, r.params);
+            return (
+              <div key={ruleIndex} className="space-y-2">
+                <div className="text-xs font-bold text-slate-300">{rule.name} <span className="text-slate-600 font-mono">#{ruleIndex + 1}</span></div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {rule.paramSchema.map(spec => {
+                    const input = sweeps[sweepKey(ruleIndex, spec.key)];
+                    const enabled = !!input?.enabled;
+                    return (
+                      <div key={spec.key} className={`p-2 rounded border ${enabled ? 'border-emerald-500/30 bg-emerald-900/10' : 'border-slate-800 bg-slate-900/50'}`}>
+                        <label className="flex items-center gap-2 text-[11px] text-slate-400">
+                          <input type="checkbox" checked={enabled} onChange={() => toggleSweep(ruleIndex, spec.key, current[spec.key], spec.step || 1)} className="rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500" />
+                          {spec.label} <span className="ml-auto font-mono text-slate-600">{current[spec.key]}</span>
+                        </label>
+                        {enabled && (spec.options ? (
+                          <p className="text-[10px] text-slate-500 mt-1">All {spec.options.length} options</p>
+                        ) : (
+                          <div className="grid grid-cols-3 gap-1 mt-1.5">
+                            {(['from', 'to', 'step'] as const).map(field => (
+                              <input key={field} type="number" title={field} value={input[field]} onChange={e => updateSweep(ruleIndex, spec.key, field, Number(e.target.value))}
+                                className="bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-200 text-right" />
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </Card>
+      </div>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'OOS CAGR', value: `${result.stitchedStats.cagr.toFixed(2)}%` },
+              { label: 'OOS Sharpe', value: result.stitchedStats.sharpe.toFixed(2) },
+              { label: 'OOS Calmar', value: result.stitchedStats.calmar.toFixed(2) },
+              { label: 'OOS Max DD', value: `-${result.stitchedStats.maxDD.toFixed(1)}%` },
+              { label: 'Windows', value: result.windows.length }
+            ].map(m => (
+              <Card key={m.label} className="p-4 bg-slate-900/40 border-slate-800">
+                <div className="text-[10px] text-slate-500 uppercase tracking-widest">{m.label}</div>
+                <div className="text-xl font-bold text-emerald-400 font-mono mt-1">{m.value}</div>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="h-[400px] flex flex-col p-8 bg-slate-900/40 border-slate-800 shadow-xl">
+            <h3 className="text-sm font-medium text-slate-400 uppercase tracking-widest mb-6">Stitched Out-of-Sample Equity</h3>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.stitched}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="date" tick={{fontSize: 10, fill: '#64748b'}} minTickGap={60} />
+                  <YAxis tick={{fontSize: 10, fill: '#64748b'}} domain={['auto', 'auto']} />
+                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px' }} />
+                  <Legend verticalAlign="top" height={36}/>
+                  <Line type="monotone" dataKey="value" stroke="#10b981" strokeWidth={2.5} dot={false} name="Walk-Forward" isAnimationActive={false} />
+                  <Line type="monotone" dataKey="benchmarkValue" stroke="#64748b" strokeWidth={1.5} dot={false} strokeDasharray="4 4" name="Benchmark" isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+              <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Candidate Ranking ({objective}, OOS Span)</div>
+              <div className="max-h-[480px] overflow-auto custom-scrollbar">
+                <table className="w-full text-left text-xs font-mono">
+                  <thead className="bg-slate-900/50 text-slate-400 sticky top-0">
+                    <tr><th className="px-4 py-3">#</th><th className="px-4 py-3">Parameters</th><th className="px-4 py-3 text-right">CAGR</th><th className="px-4 py-3 text-right">Sharpe</th><th className="px-4 py-3 text-right">Calmar</th><th className="px-4 py-3 text-right">Picked</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {result.ranking.map((r, idx) => (
+                      <tr key={r.candidateId} className="hover:bg-slate-800/30">
+                        <td className="px-4 py-3 text-slate-500">{idx + 1}</td>
+                        <td className="px-4 py-3 text-slate-300 whitespace-normal">{r.label}</td>
+                        <td className={`px-4 py-3 text-right font-bold ${r.stats.cagr >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{r.stats.cagr.toFixed(2)}%</td>
+                        <td className="px-4 py-3 text-right text-indigo-400">{r.stats.sharpe.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right text-slate-200">{r.stats.calmar.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right text-slate-400">{r.timesSelected || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            <Card className="p-0 overflow-hidden border-slate-800 bg-slate-900/40 shadow-xl">
+              <div className="p-4 bg-slate-800/50 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-200">Walk-Forward Windows</div>
+              <div className="max-h-[480px] overflow-auto custom-scrollbar">
+                <table className="w-full text-left text-xs font-mono">
+                  <thead className="bg-slate-900/50 text-slate-400 sticky top-0">
+                    <tr><th className="px-4 py-3">Out-of-Sample</th><th className="px-4 py-3">Selected</th><th className="px-4 py-3 text-right">IS</th><th className="px-4 py-3 text-right">OOS</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {result.windows.map(w => (
+                      <tr key={w.outOfSampleStart} className="hover:bg-slate-800/30">
+                        <td className="px-4 py-3 text-slate-400">{w.outOfSampleStart} → {w.outOfSampleEnd}</td>
+                        <td className="px-4 py-3 text-slate-300 whitespace-normal">{candidateLabel(w.candidateId)}</td>
+                        <td className="px-4 py-3 text-right text-slate-200">{w.inSampleScore.toFixed(2)}</td>
+                        <td className={`px-4 py-3 text-right font-bold ${w.outOfSampleScore >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{w.outOfSampleScore.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
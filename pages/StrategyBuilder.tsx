@@ -2,15 +2,35 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Card, Button, Input, Select } from '../components/ui';
 import { StorageService } from '../services/storage';
-import { SymbolData, Strategy, StrategyComponent, RebalanceFrequency, PriceType, Rule } from '../types';
-import { AVAILABLE_RULES } from '../constants';
-import { StrategyEngine } from '../services/strategyEngine';
+import { SymbolData, Strategy, StrategyComponent, StrategyRule, Regime, RebalanceFrequency, PriceType, Currency, DividendTreatment, CashRateSource, RebalancePolicy, DriftBandMode, VolTargetLeftover, StopReentry, RotationConfig, RotationWeighting, CalendarId, RebalanceAnchor, CostModelKind, CostTier, TaxLotMethod, ExecutionModel } from '../types';
+import { EnginePool } from '../services/enginePool';
+import { RuleRegistry } from '../services/rules';
+import { Calendars } from '../services/calendars';
+import { COST_MODEL_LABELS, INDIA_DELIVERY_ETF } from '../services/costs';
+import { EXECUTION_MODEL_LABELS } from '../services/execution';
+
+// A basket is one of the two risk legs, or a named regime by position
+type BasketKey = 'riskOn' | 'riskOff' | number;
+
+const DEFAULT_REGIME_NAMES = ['Bull', 'Neutral', 'Defensive', 'Crisis'];
+
+const DEFAULT_ROTATION: RotationConfig = { listId: '', lookbacks: [63, 126, 252], skipDays: 21, topN: 3, weighting: 'Equal', volLookback: 63, absoluteMomentum: true };
+
+const CALENDAR_LABELS: Record<CalendarId, string> = { NYSE: 'NYSE', NSE: 'NSE', Always: '24/7' };
+
+const DEFAULT_TIERS: CostTier[] = [{ upTo: 10000, pct: 0.1 }, { pct: 0.05 }];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const parseLookbacks = (text: string): number[] =>
+  Array.from(new Set(text.split(',').map(v => parseInt(v.trim(), 10)).filter(v => isFinite(v) && v > 0))).sort((a, b) => a - b);
 
 export const StrategyBuilder = () => {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
   const [symbols, setSymbols] = useState<SymbolData[]>([]);
   const [view, setView] = useState<'LIST' | 'EDITOR'>('LIST');
   const [isSyncing, setIsSyncing] = useState<string | null>(null);
+  const [lookbacksText, setLookbacksText] = useState<string | null>(null); // Raw lookbacks text while editing a rotation
 
   const [form, setForm] = useState<Partial<Strategy>>({
     name: '',
@@ -38,6 +58,8 @@ export const StrategyBuilder = () => {
     }
   }, []);
 
+  useEffect(() => setLookbacksText(null), [view]);
+
   const loadStrategies = () => {
     setStrategies(StorageService.getStrategies());
   };
@@ -45,7 +67,7 @@ export const StrategyBuilder = () => {
   const handleMaterialize = async (strat: Strategy) => {
     setIsSyncing(strat.id);
     try {
-        const sim = await StrategyEngine.runSimulation(strat, symbols);
+        const sim = await EnginePool.run({ strategy: strat, symbols }).promise;
         const mData = sim.series.map(p => ({
             date: p.date,
             open: p.value,
@@ -64,22 +86,34 @@ export const StrategyBuilder = () => {
   };
 
   const assetOptions = useMemo(() => {
-    const opts = symbols.map(s => ({ value: s.id, label: `(SYM) ${s.ticker} - ${s.name}` }));
+    const opts = symbols.map(s => ({ value: s.id, label: `(${s.isList ? 'LIST' : 'SYM'}) ${s.ticker} - ${s.name}` }));
     const filteredStrats = strategies.filter(s => s.id !== form.id);
     const stratOpts = filteredStrats.map(s => ({ value: `STRAT:${s.id}`, label: `(STRAT) ${s.name}` }));
     return [...opts, ...stratOpts];
   }, [symbols, strategies, form.id]);
 
-  const riskOnSum = useMemo(() => (form.riskOnComponents || []).reduce((a, b) => a + b.allocation, 0), [form.riskOnComponents]);
-  const riskOffSum = useMemo(() => (form.riskOffComponents || []).reduce((a, b) => a + b.allocation, 0), [form.riskOffComponents]);
+  // Baskets are validated on their long book; shorts are an overlay sized relative to it
+  const longSum = (list?: StrategyComponent[]) => (list || []).filter(c => c.direction !== 'Short').reduce((a, b) => a + b.allocation, 0);
+  const shortSum = (list?: StrategyComponent[]) => (list || []).filter(c => c.direction === 'Short').reduce((a, b) => a + b.allocation, 0);
+
+  const basketOf = (key: BasketKey): StrategyComponent[] => {
+      if (typeof key === 'number') return form.regimes?.[key]?.components || [];
+      return (key === 'riskOn' ? form.riskOnComponents : form.riskOffComponents) || [];
+  };
+
+  const setBasket = (key: BasketKey, components: StrategyComponent[]) => {
+      if (typeof key === 'number') {
+          setForm({ ...form, regimes: (form.regimes || []).map((r, i) => i === key ? { ...r, components } : r) });
+      } else {
+          setForm({ ...form, [key === 'riskOn' ? 'riskOnComponents' : 'riskOffComponents']: components });
+      }
+  };
 
-  const normalizeWeights = (type: 'riskOn' | 'riskOff') => {
-      const listKey = type === 'riskOn' ? 'riskOnComponents' : 'riskOffComponents';
-      const components = [...(form[listKey] || [])];
-      const sum = components.reduce((a, b) => a + b.allocation, 0);
+  const normalizeWeights = (key: BasketKey) => {
+      const components = basketOf(key);
+      const sum = longSum(components);
       if (sum === 0) return;
-      const normalized = components.map(c => ({ ...c, allocation: Number(((c.allocation / sum) * 100).toFixed(2)) }));
-      setForm({ ...form, [listKey]: normalized });
+      setBasket(key, components.map(c => c.direction === 'Short' ? c : ({ ...c, allocation: Number(((c.allocation / sum) * 100).toFixed(2)) })));
   };
 
   const handleEdit = (strategy: Strategy) => {
@@ -106,6 +140,15 @@ export const StrategyBuilder = () => {
 
   const handleSave = () => {
     if(!form.name) return;
+    if (form.type === 'Rotation' && !form.rotation?.listId) {
+        alert('Pick a symbol list for the rotation.');
+        return;
+    }
+    const missingInput = (form.rules || []).flatMap(r => (RuleRegistry.get(r.ruleId)?.inputs || []).filter(spec => !spec.defaultTicker && !r.inputs?.[spec.key]).map(spec => `${RuleRegistry.get(r.ruleId)!.name}: ${spec.label}`))[0];
+    if (form.type !== 'Meta' && missingInput) {
+        alert(`Pick a series for ${missingInput}.`);
+        return;
+    }
     const strategyId = form.id || `strat_${Date.now()}`;
     const newStrategy: Strategy = {
       id: strategyId,
@@ -113,16 +156,61 @@ export const StrategyBuilder = () => {
       type: form.type || 'Single',
       description: form.description || '',
       rebalanceFreq: form.rebalanceFreq || RebalanceFrequency.MONTHLY,
+      rebalancePolicy: form.rebalancePolicy || 'Calendar',
+      rebalanceAnchor: form.rebalanceAnchor || 'PeriodStart',
+      rebalanceAnchorOffset: form.rebalanceAnchorOffset || 0,
+      rebalanceAnchorWeekday: form.rebalanceAnchorWeekday ?? 1,
+      calendar: form.calendar || undefined,
+      driftBandPct: form.driftBandPct || 0,
+      driftBandMode: form.driftBandMode || 'Absolute',
+      volTargetPct: form.volTargetPct || 0,
+      volTargetLookback: form.volTargetLookback || 63,
+      volTargetMaxLeverage: form.volTargetMaxLeverage ?? 1,
+      volTargetLeftover: form.volTargetLeftover || 'RiskOff',
+      stopLossPct: form.stopLossPct || 0,
+      trailingStopPct: form.trailingStopPct || 0,
+      takeProfitPct: form.takeProfitPct || 0,
+      drawdownBreakerPct: form.drawdownBreakerPct || 0,
+      stopReentry: form.stopReentry || 'NextRebalance',
+      stopCooldownDays: form.stopCooldownDays || 0,
       pricePreference: form.pricePreference || PriceType.CLOSE,
       executionDelay: form.executionDelay || 0,
+      executionModel: form.executionModel || 'SameBar',
+      executionDays: form.executionDays || 1,
+      maxParticipationPct: form.maxParticipationPct || 0,
+      advLookback: form.advLookback || 20,
+      impactPct: form.impactPct || 0,
       initialCapital: form.initialCapital || 10000,
+      baseCurrency: form.baseCurrency,
       transactionCostPct: form.transactionCostPct || 0,
       slippagePct: form.slippagePct || 0,
+      costModel: form.costModel || 'Percentage',
+      commissionPerShare: form.commissionPerShare || 0,
+      commissionMaxPct: form.commissionMaxPct || 0,
+      commissionTiers: form.costModel === 'Tiered' ? (form.commissionTiers || DEFAULT_TIERS) : undefined,
+      minCommission: form.minCommission || 0,
+      fractionalShares: form.fractionalShares !== false,
+      minTradeValue: form.minTradeValue || 0,
+      taxEnabled: !!form.taxEnabled,
+      taxLotMethod: form.taxLotMethod || 'FIFO',
+      longTermDays: form.longTermDays ?? 365,
+      shortTermTaxPct: form.shortTermTaxPct || 0,
+      longTermTaxPct: form.longTermTaxPct || 0,
+      longTermExemption: form.longTermExemption || 0,
+      shortBorrowFeePct: form.shortBorrowFeePct || 0,
+      dividendTreatment: form.dividendTreatment || 'None',
+      cashRateSource: form.cashRateSource || 'None',
+      cashRatePct: form.cashRatePct || 0,
+      cashRateSymbolId: form.cashRateSymbolId,
+      borrowRatePct: form.borrowRatePct || 0,
       benchmarkSymbolId: form.benchmarkSymbolId || (symbols[0]?.id || '1'),
       backtestDuration: form.backtestDuration || '1Y',
+      signalSymbolId: form.signalSymbolId || undefined,
       riskOnComponents: form.riskOnComponents || [],
       riskOffComponents: form.riskOffComponents || [],
+      regimes: form.type !== 'Rotation' && form.regimes && form.regimes.length >= 2 ? form.regimes : undefined,
       rules: form.rules || [],
+      rotation: form.type === 'Rotation' ? { ...DEFAULT_ROTATION, ...form.rotation } : undefined,
       subStrategyAllocations: form.subStrategyAllocations || [],
       onlyTradeOnSignalChange: !!form.onlyTradeOnSignalChange
     };
@@ -131,30 +219,317 @@ export const StrategyBuilder = () => {
     setView('LIST');
   };
 
-  const updateComponent = (type: 'riskOn' | 'riskOff', index: number, field: keyof StrategyComponent, value: any) => {
-    const listKey = type === 'riskOn' ? 'riskOnComponents' : 'riskOffComponents';
-    const currentList = [...(form[listKey] || [])];
+  const rotation: RotationConfig = { ...DEFAULT_ROTATION, ...form.rotation };
+  const updateRotation = (changes: Partial<RotationConfig>) => setForm({ ...form, rotation: { ...rotation, ...changes } });
+  const rotationList = symbols.find(s => s.id === rotation.listId);
+
+  const tiers = form.commissionTiers || DEFAULT_TIERS;
+  const updateTier = (index: number, changes: Partial<CostTier>) => setForm({ ...form, commissionTiers: tiers.map((t, i) => i === index ? { ...t, ...changes } : t) });
+
+  const updateComponent = (key: BasketKey, index: number, field: keyof StrategyComponent, value: any) => {
+    const currentList = [...basketOf(key)];
     currentList[index] = { ...currentList[index], [field]: value };
-    setForm({ ...form, [listKey]: currentList });
+    setBasket(key, currentList);
   };
 
-  const addComponent = (type: 'riskOn' | 'riskOff') => {
-    const listKey = type === 'riskOn' ? 'riskOnComponents' : 'riskOffComponents';
+  const addComponent = (key: BasketKey) => {
     const newComp: StrategyComponent = { symbolId: symbols[0]?.id || '', direction: 'Long', allocation: 0 };
-    setForm({ ...form, [listKey]: [...(form[listKey] || []), newComp] });
+    setBasket(key, [...basketOf(key), newComp]);
+  };
+
+  const removeComponent = (key: BasketKey, index: number) => {
+    const currentList = [...basketOf(key)];
+    currentList.splice(index, 1);
+    setBasket(key, currentList);
+  };
+
+  // Switching to named regimes seeds the first and last regime from the risk-on/off baskets
+  const enableRegimes = () => {
+    const regimes: Regime[] = DEFAULT_REGIME_NAMES.map((name, i) => ({
+        id: `regime_${Date.now()}_${i}`,
+        name,
+        components: i === 0 ? [...(form.riskOnComponents || [])] : i === DEFAULT_REGIME_NAMES.length - 1 ? [...(form.riskOffComponents || [])] : []
+    }));
+    setForm({ ...form, regimes });
+  };
+
+  const disableRegimes = () => {
+    const regimes = form.regimes || [];
+    setForm({
+        ...form,
+        riskOnComponents: regimes[0]?.components || form.riskOnComponents || [],
+        riskOffComponents: regimes[regimes.length - 1]?.components || form.riskOffComponents || [],
+        regimes: undefined
+    });
+  };
+
+  const updateRegime = (index: number, changes: Partial<Regime>) => {
+    setForm({ ...form, regimes: (form.regimes || []).map((r, i) => i === index ? { ...r, ...changes } : r) });
+  };
+
+  const addRegime = () => {
+    const regimes = form.regimes || [];
+    setForm({ ...form, regimes: [...regimes, { id: `regime_${Date.now()}`, name: `Regime ${regimes.length + 1}`, components: [] }] });
+  };
+
+  const removeRegime = (index: number) => {
+    setForm({ ...form, regimes: (form.regimes || []).filter((_, i) => i !== index) });
+  };
+
+  const moveRegime = (index: number, offset: number) => {
+    const regimes = [...(form.regimes || [])];
+    const target = index + offset;
+    if (target < 0 || target >= regimes.length) return;
+    [regimes[index], regimes[target]] = [regimes[target], regimes[index]];
+    setForm({ ...form, regimes });
+  };
+
+  const ruleWeightSum = useMemo(() => (form.rules || []).reduce((a, b) => a + b.weight, 0), [form.rules]);
+
+  const updateRule = (index: number, field: 'ruleId' | 'weight', value: any) => {
+    const currentList = [...(form.rules || [])];
+    currentList[index] = { ...currentList[index], [field]: value };
+    // Overrides are keyed to a rule's own schema, so they don't carry over to a new rule
+    if (field === 'ruleId') {
+        delete currentList[index].params;
+        delete currentList[index].inputs;
+    }
+    setForm({ ...form, rules: currentList });
+  };
+
+  const updateRuleInput = (index: number, key: string, symbolId: string) => {
+    const currentList = [...(form.rules || [])];
+    const inputs = { ...(currentList[index].inputs || {}) };
+    if (symbolId) inputs[key] = symbolId;
+    else delete inputs[key];
+    currentList[index] = { ...currentList[index], inputs: Object.keys(inputs).length > 0 ? inputs : undefined };
+    setForm({ ...form, rules: currentList });
+  };
+
+  const updateRuleParam = (index: number, key: string, value: number) => {
+    const currentList = [...(form.rules || [])];
+    currentList[index] = { ...currentList[index], params: { ...(currentList[index].params || {}), [key]: value } };
+    setForm({ ...form, rules: currentList });
+  };
+
+  const resetRuleParams = (index: number) => {
+    const currentList = [...(form.rules || [])];
+    const { params, ...rest } = currentList[index];
+    currentList[index] = rest;
+    setForm({ ...form, rules: currentList });
+  };
+
+  const addRule = () => {
+    const firstRule = RuleRegistry.list()[0];
+    setForm({ ...form, rules: [...(form.rules || []), { ruleId: firstRule?.id || '', weight: 0 }] });
+  };
+
+  const removeRule = (index: number) => {
+    const currentList = [...(form.rules || [])];
+    currentList.splice(index, 1);
+    setForm({ ...form, rules: currentList });
+  };
+
+  const normalizeRuleWeights = () => {
+    const rules = form.rules || [];
+    if (ruleWeightSum === 0) return;
+    setForm({ ...form, rules: rules.map(r => ({ ...r, weight: Number(((r.weight / ruleWeightSum) * 100).toFixed(2)) })) });
+  };
+
+  const renderRuleInputs = (entry: StrategyRule, index: number) => {
+    const rule = RuleRegistry.get(entry.ruleId);
+    if (!rule?.inputs || rule.inputs.length === 0) return null;
+    const seriesOptions = assetOptions.filter(o => !symbols.find(s => s.id === o.value)?.isList);
+
+    return (
+        <div className="space-y-2 pt-2 border-t border-slate-800/50">
+            <span className="block text-[9px] font-bold text-slate-500 uppercase tracking-widest">Inputs</span>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {rule.inputs.map(spec => (
+                    <label key={spec.key} className="block">
+                        <span className={`block text-[9px] mb-1 ${entry.inputs?.[spec.key] ? 'text-emerald-400' : 'text-slate-500'}`}>{spec.label}</span>
+                        <select
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                          value={entry.inputs?.[spec.key] || ''}
+                          onChange={(e) => updateRuleInput(index, spec.key, e.target.value)}
+                        >
+                            <option value="">{spec.defaultTicker ? `Default (${spec.defaultTicker})` : 'Select a series'}</option>
+                            {seriesOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+  };
+
+  const renderRuleParams = (entry: StrategyRule, index: number) => {
+    const rule = RuleRegistry.get(entry.ruleId);
+    if (!rule || rule.paramSchema.length === 0) return null;
+    const hasOverrides = !!entry.params && Object.keys(entry.params).length > 0;
+
+    return (
+        <div className="space-y-2 pt-2 border-t border-slate-800/50">
+            <div className="flex justify-between items-center">
+                <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Parameters</span>
+                {hasOverrides && <button onClick={() => resetRuleParams(index)} className="text-[9px] text-emerald-400 hover:underline">Reset to defaults</button>}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {rule.paramSchema.map(spec => {
+                    const isOverridden = entry.params?.[spec.key] !== undefined && entry.params[spec.key] !== rule.params[spec.key];
+                    return (
+                        <label key={spec.key} className="block">
+                            <span className={`block text-[9px] mb-1 ${isOverridden ? 'text-emerald-400' : 'text-slate-500'}`}>{spec.label}</span>
+                            {spec.options ? (
+                                <select
+                                  className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                                  value={entry.params?.[spec.key] ?? rule.params[spec.key]}
+                                  onChange={(e) => updateRuleParam(index, spec.key, Number(e.target.value))}
+                                >
+                                    {spec.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                            ) : (
+                                <input
+                                  type="number"
+                                  min={spec.min}
+                                  max={spec.max}
+                                  step={spec.step}
+                                  className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 text-right"
+                                  value={entry.params?.[spec.key] ?? rule.params[spec.key]}
+                                  onChange={(e) => updateRuleParam(index, spec.key, Number(e.target.value))}
+                                />
+                            )}
+                        </label>
+                    );
+                })}
+            </div>
+        </div>
+    );
+  };
+
+  const renderRuleTable = () => {
+    const isError = Math.abs(ruleWeightSum - 100) > 0.01;
+    const ruleOptions = RuleRegistry.list().map(r => ({ value: r.id, label: r.name }));
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                    <h4 className="font-medium text-slate-300 uppercase text-xs tracking-widest">Regime Switch Rules</h4>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${isError ? 'bg-red-900/40 text-red-400 border border-red-500/20' : 'bg-emerald-900/40 text-emerald-400'}`}>
+                        {ruleWeightSum.toFixed(1)}%
+                    </span>
+                    {isError && ruleWeightSum > 0 && <button onClick={normalizeRuleWeights} className="text-[9px] text-emerald-400 hover:underline ml-2">Fix to 100%</button>}
+                </div>
+                <Button variant="ghost" className="text-[10px] h-7 px-2 border border-slate-800" onClick={addRule}>+ ADD</Button>
+            </div>
+            {(form.rules || []).length === 0 && <p className="text-[10px] text-slate-500">No rules selected. {RuleRegistry.resolve().name} is used by default.</p>}
+            {form.rules?.map((r, idx) => (
+                <div key={idx} className="space-y-2 bg-slate-900/50 p-2 rounded border border-slate-800/50">
+                    <div className="flex gap-2 items-center">
+                        <select className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200" value={r.ruleId} onChange={(e) => updateRule(idx, 'ruleId', e.target.value)}>
+                            {ruleOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                        <div className="w-20 relative">
+                            <input
+                              type="number"
+                              step="0.01"
+                              className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 text-right pr-5"
+                              value={r.weight}
+                              onChange={(e) => updateRule(idx, 'weight', Number(e.target.value))}
+                            />
+                            <span className="absolute right-1.5 top-1.5 text-[10px] text-slate-500 font-bold">%</span>
+                        </div>
+                        <button onClick={() => removeRule(idx)} className="text-slate-600 hover:text-red-400 p-1 transition-colors">
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-relaxed">{RuleRegistry.get(r.ruleId)?.description}</p>
+                    {renderRuleInputs(r, idx)}
+                    {renderRuleParams(r, idx)}
+                </div>
+            ))}
+        </div>
+    );
   };
 
-  const removeComponent = (type: 'riskOn' | 'riskOff', index: number) => {
-    const listKey = type === 'riskOn' ? 'riskOnComponents' : 'riskOffComponents';
-    const currentList = [...(form[listKey] || [])];
+  const subStrategySum = useMemo(() => (form.subStrategyAllocations || []).reduce((a, b) => a + b.weight, 0), [form.subStrategyAllocations]);
+
+  const updateSubStrategy = (index: number, field: 'strategyId' | 'weight', value: any) => {
+    const currentList = [...(form.subStrategyAllocations || [])];
+    currentList[index] = { ...currentList[index], [field]: value };
+    setForm({ ...form, subStrategyAllocations: currentList });
+  };
+
+  const addSubStrategy = () => {
+    const candidate = strategies.find(s => s.id !== form.id);
+    if (!candidate) return;
+    setForm({ ...form, subStrategyAllocations: [...(form.subStrategyAllocations || []), { strategyId: candidate.id, weight: 0 }] });
+  };
+
+  const removeSubStrategy = (index: number) => {
+    const currentList = [...(form.subStrategyAllocations || [])];
     currentList.splice(index, 1);
-    setForm({ ...form, [listKey]: currentList });
+    setForm({ ...form, subStrategyAllocations: currentList });
+  };
+
+  const normalizeSubStrategyWeights = () => {
+    if (subStrategySum === 0) return;
+    setForm({ ...form, subStrategyAllocations: (form.subStrategyAllocations || []).map(a => ({ ...a, weight: Number(((a.weight / subStrategySum) * 100).toFixed(2)) })) });
   };
 
-  const renderAssetTable = (type: 'riskOn' | 'riskOff', title: string) => {
-    const components = type === 'riskOn' ? form.riskOnComponents : form.riskOffComponents;
-    const sum = type === 'riskOn' ? riskOnSum : riskOffSum;
-    const isError = Math.abs(sum - 100) > 0.01;
+  const renderSubStrategyTable = () => {
+    const isError = Math.abs(subStrategySum - 100) > 0.01;
+    const childOptions = strategies.filter(s => s.id !== form.id).map(s => ({ value: s.id, label: `${s.type === 'Meta' ? '(META) ' : ''}${s.name}` }));
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                    <h4 className="font-medium text-slate-300 uppercase text-xs tracking-widest">Children</h4>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${isError ? 'bg-red-900/40 text-red-400 border border-red-500/20' : 'bg-emerald-900/40 text-emerald-400'}`}>
+                        {subStrategySum.toFixed(1)}%
+                    </span>
+                    {isError && subStrategySum > 0 && <button onClick={normalizeSubStrategyWeights} className="text-[9px] text-emerald-400 hover:underline ml-2">Fix to 100%</button>}
+                </div>
+                <Button variant="ghost" className="text-[10px] h-7 px-2 border border-slate-800" onClick={addSubStrategy}>+ ADD</Button>
+            </div>
+            <p className="text-[10px] text-slate-500">Each child runs its own rules. Their assets are held in one book, rebalanced back to these weights at the meta frequency, with same-day child trades netted.</p>
+            {form.subStrategyAllocations?.map((a, idx) => (
+                <div key={idx} className="flex gap-2 items-center bg-slate-900/50 p-2 rounded border border-slate-800/50">
+                    <select className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200" value={a.strategyId} onChange={(e) => updateSubStrategy(idx, 'strategyId', e.target.value)}>
+                        {childOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <div className="w-28 relative">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 text-right pr-6"
+                          value={a.weight}
+                          onChange={(e) => updateSubStrategy(idx, 'weight', Number(e.target.value))}
+                        />
+                        <span className="absolute right-2 top-2 text-[10px] text-slate-500 font-bold">%</span>
+                    </div>
+                    <button onClick={() => removeSubStrategy(idx)} className="text-slate-600 hover:text-red-400 p-1 transition-colors">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+  };
+
+  const renderAssetTable = (type: BasketKey, title: React.ReactNode) => {
+    const components = basketOf(type);
+    const sum = longSum(components);
+    const shorts = shortSum(components);
+    // Baskets above 100% are leveraged and borrow the difference in cash
+    const isError = sum < 100 - 0.01;
+    const leverage = sum > 100 + 0.01 ? sum / 100 : 0;
 
     return (
         <div className="space-y-3">
@@ -164,6 +539,12 @@ export const StrategyBuilder = () => {
                     <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${isError ? 'bg-red-900/40 text-red-400 border border-red-500/20' : 'bg-emerald-900/40 text-emerald-400'}`}>
                         {sum.toFixed(1)}%
                     </span>
+                    {shorts > 0 && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded font-mono bg-amber-900/40 text-amber-400">-{shorts.toFixed(1)}% short</span>
+                    )}
+                    {leverage > 0 && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded font-mono bg-amber-900/40 text-amber-400">{leverage.toFixed(2)}x levered</span>
+                    )}
                     {isError && sum > 0 && <button onClick={() => normalizeWeights(type)} className="text-[9px] text-emerald-400 hover:underline ml-2">Fix to 100%</button>}
                 </div>
                 <Button variant="ghost" className="text-[10px] h-7 px-2 border border-slate-800" onClick={() => addComponent(type)}>+ ADD</Button>
@@ -175,6 +556,14 @@ export const StrategyBuilder = () => {
                             {assetOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
                         </select>
                     </div>
+                    <select
+                      className={`w-full sm:w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs font-bold ${comp.direction === 'Short' ? 'text-amber-400' : 'text-emerald-400'}`}
+                      value={comp.direction}
+                      onChange={(e) => updateComponent(type, idx, 'direction', e.target.value)}
+                    >
+                        <option value="Long">Long</option>
+                        <option value="Short">Short</option>
+                    </select>
                     <div className="w-full sm:w-44 relative flex items-center gap-2">
                         <input 
                           type="number" 
@@ -197,6 +586,19 @@ export const StrategyBuilder = () => {
     )
   }
 
+  const rebalanceSummary = () => {
+    const band = `±${form.driftBandPct || 0}${form.driftBandMode === 'Relative' ? '% of target' : 'pp'}`;
+    const offset = form.rebalanceAnchorOffset || 0;
+    const anchor = form.rebalanceFreq === RebalanceFrequency.DAILY ? ''
+      : form.rebalanceAnchor === 'PeriodEnd' ? (offset > 0 ? ` (${offset} before end)` : ' (last session)')
+      : form.rebalanceAnchor === 'Weekday' ? ` (first ${WEEKDAYS[form.rebalanceAnchorWeekday ?? 1].slice(0, 3)})`
+      : '';
+    if (form.rebalancePolicy === 'DriftBand') return `${band} drift`;
+    if (form.rebalancePolicy === 'CalendarAndDriftBand') return `${form.rebalanceFreq}${anchor}, ${band} drift`;
+    return `${form.rebalanceFreq}${anchor}`;
+  };
+  const benchmarkCalendar = Calendars.forExchange(symbols.find(s => s.id === form.benchmarkSymbolId)?.exchange);
+
   if (view === 'EDITOR') {
     return (
       <div className="max-w-5xl mx-auto space-y-6">
@@ -218,22 +620,125 @@ export const StrategyBuilder = () => {
                         <div className="grid grid-cols-1 gap-4">
                             <Input label="Strategy Name" value={form.name || ''} onChange={e => setForm({...form, name: e.target.value})} />
                             <Input label="Description (Optional)" value={form.description || ''} onChange={e => setForm({...form, description: e.target.value})} />
+                            <Select label="Strategy Type" value={form.type || 'Single'} onChange={e => setForm({...form, type: e.target.value as Strategy['type']})} options={[
+                                { value: 'Single', label: 'Single (Regime Switch)' },
+                                { value: 'Meta', label: 'Meta (Combine Strategies)' },
+                                { value: 'Rotation', label: 'Rotation (Relative Strength)' }
+                            ]} />
                         </div>
                     </section>
 
                     <section className="space-y-4">
                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Backtest Parameters</h3>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            <Input type="number" label="Initial Capital" value={form.initialCapital || 10000} onChange={e => setForm({...form, initialCapital: Number(e.target.value)})} />
+                            <div className="grid grid-cols-2 gap-2">
+                                <Input type="number" label="Initial Capital" value={form.initialCapital || 10000} onChange={e => setForm({...form, initialCapital: Number(e.target.value)})} />
+                                <Select label="Base Currency" value={form.baseCurrency || ''} onChange={e => setForm({...form, baseCurrency: (e.target.value || undefined) as Currency | undefined})} options={[
+                                    { value: '', label: 'Benchmark CCY' },
+                                    ...Object.values(Currency).map(c => ({ value: c, label: c }))
+                                ]} />
+                            </div>
                             <Select label="Benchmark Symbol" value={form.benchmarkSymbolId || ''} onChange={e => setForm({...form, benchmarkSymbolId: e.target.value})} options={symbols.map(s => ({ value: s.id, label: `${s.ticker} - ${s.name}` }))} />
                             <div className="grid grid-cols-2 gap-2">
-                                <Input type="number" label="Tx Cost (%)" value={form.transactionCostPct || 0} onChange={e => setForm({...form, transactionCostPct: Number(e.target.value)})} />
+                                <Select label="Cost Model" value={form.costModel || 'Percentage'} onChange={e => setForm({...form, costModel: e.target.value as CostModelKind})} options={(Object.keys(COST_MODEL_LABELS) as CostModelKind[]).map(k => ({ value: k, label: COST_MODEL_LABELS[k] }))} />
                                 <Input type="number" label="Slippage (%)" value={form.slippagePct || 0} onChange={e => setForm({...form, slippagePct: Number(e.target.value)})} />
                             </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                {form.costModel === 'PerShare' && (
+                                    <Input type="number" label="Per Share" value={form.commissionPerShare || 0} onChange={e => setForm({...form, commissionPerShare: Number(e.target.value)})} />
+                                )}
+                                {form.costModel !== 'PerShare' && form.costModel !== 'Tiered' && (
+                                    <Input type="number" label={form.costModel === 'IndiaDeliveryETF' ? 'Brokerage (%)' : 'Tx Cost (%)'} value={form.transactionCostPct || 0} onChange={e => setForm({...form, transactionCostPct: Number(e.target.value)})} />
+                                )}
+                                <Input type="number" label="Min per Order" value={form.minCommission || 0} onChange={e => setForm({...form, minCommission: Number(e.target.value)})} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Select label="Order Quantities" value={form.fractionalShares === false ? 'Whole' : 'Fractional'} onChange={e => setForm({...form, fractionalShares: e.target.value !== 'Whole'})} options={[
+                                    { value: 'Fractional', label: 'Fractional' },
+                                    { value: 'Whole', label: 'Whole Lots' }
+                                ]} />
+                                <Input type="number" label="Min Trade Value" value={form.minTradeValue || 0} onChange={e => setForm({...form, minTradeValue: Number(e.target.value)})} />
+                            </div>
+                            {form.costModel === 'PerShare' && (
+                                <Input type="number" label="Max Commission (% of Value, 0 = None)" value={form.commissionMaxPct || 0} onChange={e => setForm({...form, commissionMaxPct: Number(e.target.value)})} />
+                            )}
+                            {form.costModel === 'IndiaDeliveryETF' && (
+                                <p className="text-[10px] text-slate-500 self-center">
+                                    Adds STT {INDIA_DELIVERY_ETF.sttSellPct}% on sells, exchange {INDIA_DELIVERY_ETF.exchangePct}%, SEBI {INDIA_DELIVERY_ETF.sebiPct}%, stamp duty {INDIA_DELIVERY_ETF.stampBuyPct}% on buys and {INDIA_DELIVERY_ETF.gstPct}% GST on brokerage and fees.
+                                </p>
+                            )}
+                            {form.costModel === 'Tiered' && (
+                                <div className="md:col-span-2 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <h4 className="font-medium text-slate-300 uppercase text-xs tracking-widest">Commission Tiers <span className="text-slate-500 normal-case tracking-normal">(marginal, by order value)</span></h4>
+                                        <Button variant="ghost" className="text-[10px] h-7 px-2 border border-slate-800" onClick={() => setForm({ ...form, commissionTiers: [...tiers, { pct: tiers[tiers.length - 1]?.pct || 0 }] })}>+ ADD</Button>
+                                    </div>
+                                    {tiers.map((tier, idx) => (
+                                        <div key={idx} className="flex gap-2 items-center bg-slate-900/50 p-2 rounded border border-slate-800/50">
+                                            <span className="text-[10px] text-slate-500 w-12">Up to</span>
+                                            <input type="number" className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200" value={tier.upTo ?? ''} placeholder="No limit" onChange={e => updateTier(idx, { upTo: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                                            <input type="number" step="0.01" className="w-24 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 text-right" value={tier.pct} onChange={e => updateTier(idx, { pct: Number(e.target.value) })} />
+                                            <span className="text-[10px] text-slate-500 font-bold">%</span>
+                                            {tiers.length > 1 && (
+                                                <button onClick={() => setForm({ ...form, commissionTiers: tiers.filter((_, i) => i !== idx) })} className="text-slate-600 hover:text-red-400 p-1 transition-colors">
+                                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 gap-2">
+                                <Input type="number" label="Short Borrow Fee (% p.a.)" value={form.shortBorrowFeePct || 0} onChange={e => setForm({...form, shortBorrowFeePct: Number(e.target.value)})} />
+                                <Select label="Dividends" value={form.dividendTreatment || 'None'} onChange={e => setForm({...form, dividendTreatment: e.target.value as DividendTreatment})} options={[
+                                    { value: 'None', label: 'Ignore (Price Return)' },
+                                    { value: 'Reinvest', label: 'Reinvest' },
+                                    { value: 'Cash', label: 'Hold as Cash' }
+                                ]} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Select label="Cash Yield" value={form.cashRateSource || 'None'} onChange={e => setForm({...form, cashRateSource: e.target.value as CashRateSource})} options={[
+                                    { value: 'None', label: 'None' },
+                                    { value: 'Fixed', label: 'Fixed Rate' },
+                                    { value: 'Symbol', label: 'Symbol Yield' }
+                                ]} />
+                                <Input type="number" label="Borrow Rate (% p.a.)" value={form.borrowRatePct || 0} onChange={e => setForm({...form, borrowRatePct: Number(e.target.value)})} />
+                            </div>
+                            {form.cashRateSource === 'Fixed' && (
+                                <Input type="number" label="Cash Rate (% p.a.)" value={form.cashRatePct || 0} onChange={e => setForm({...form, cashRatePct: Number(e.target.value)})} />
+                            )}
+                            {form.cashRateSource === 'Symbol' && (
+                                <Select label="Cash Yield Symbol" value={form.cashRateSymbolId || ''} onChange={e => setForm({...form, cashRateSymbolId: e.target.value})} options={[
+                                    { value: '', label: 'Select a symbol' },
+                                    ...symbols.map(s => ({ value: s.id, label: `${s.ticker} - ${s.name}` }))
+                                ]} />
+                            )}
                             <div className="grid grid-cols-2 gap-2">
                                 <Input type="number" label="Delay (Days)" value={form.executionDelay || 0} onChange={e => setForm({...form, executionDelay: Number(e.target.value)})} />
                                 <Select label="Price Ref" value={form.pricePreference || PriceType.CLOSE} onChange={e => setForm({...form, pricePreference: e.target.value as PriceType})} options={Object.values(PriceType).map(v => ({ value: v, label: v }))} />
                             </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Select label="Execution Model" value={form.executionModel || 'SameBar'} onChange={e => setForm({...form, executionModel: e.target.value as ExecutionModel})} options={(Object.keys(EXECUTION_MODEL_LABELS) as ExecutionModel[]).map(k => ({ value: k, label: EXECUTION_MODEL_LABELS[k] }))} />
+                                {(form.executionModel === 'VWAP' || form.executionModel === 'TWAP') && (
+                                    <Input type="number" label="Sessions per Order" value={form.executionDays || 1} onChange={e => setForm({...form, executionDays: Math.max(1, Math.floor(Number(e.target.value)))})} />
+                                )}
+                            </div>
+                            {form.executionModel && form.executionModel !== 'SameBar' && (
+                                <p className="text-[10px] text-slate-500 self-center">
+                                    {form.executionModel === 'NextOpen' && 'Fills at the open of the session after the signal close (plus any delay). '}
+                                    {form.executionModel === 'VWAP' && "Fills at each session's typical price, spread over the sessions in proportion to traded volume. "}
+                                    {form.executionModel === 'TWAP' && 'Fills in equal slices at the Price Ref, one per session. '}
+                                    {form.type === 'Meta' && 'Sub-strategies work their own orders; the combined book fills in one session.'}
+                                </p>
+                            )}
+                            <div className="grid grid-cols-3 gap-2">
+                                <Input type="number" label="Max % of ADV" value={form.maxParticipationPct || 0} onChange={e => setForm({...form, maxParticipationPct: Math.max(0, Number(e.target.value))})} />
+                                <Input type="number" label="ADV Lookback" value={form.advLookback || 20} onChange={e => setForm({...form, advLookback: Math.max(1, Math.floor(Number(e.target.value)))})} />
+                                <Input type="number" label="Impact (%)" value={form.impactPct || 0} onChange={e => setForm({...form, impactPct: Math.max(0, Number(e.target.value))})} />
+                            </div>
+                            <p className="text-[10px] text-slate-500 self-center">
+                                Each session fills at most the given share of average daily volume (0 = no cap); the rest carries forward until filled or replaced. Impact is the cost of an order one day's volume in size, scaling with the square root of its share of volume.
+                            </p>
                         </div>
                     </section>
 
@@ -256,18 +761,212 @@ export const StrategyBuilder = () => {
                                 </div>
                              </div>
                         </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <Select label="Rebalance Policy" value={form.rebalancePolicy || 'Calendar'} onChange={e => setForm({...form, rebalancePolicy: e.target.value as RebalancePolicy})} options={[
+                                { value: 'Calendar', label: 'Calendar Only' },
+                                { value: 'DriftBand', label: 'Drift Band (Daily Check)' },
+                                { value: 'CalendarAndDriftBand', label: 'Drift Band on Calendar Dates' }
+                            ]} />
+                            {(form.rebalancePolicy || 'Calendar') !== 'Calendar' && (
+                                <>
+                                    <Input type="number" label={form.driftBandMode === 'Relative' ? 'Band (% of Target)' : 'Band (% Points)'} value={form.driftBandPct || 0} onChange={e => setForm({...form, driftBandPct: Number(e.target.value)})} />
+                                    <Select label="Band Type" value={form.driftBandMode || 'Absolute'} onChange={e => setForm({...form, driftBandMode: e.target.value as DriftBandMode})} options={[
+                                        { value: 'Absolute', label: 'Absolute' },
+                                        { value: 'Relative', label: 'Relative' }
+                                    ]} />
+                                </>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <Select label="Trading Calendar" value={form.calendar || ''} onChange={e => setForm({...form, calendar: (e.target.value || undefined) as CalendarId | undefined})} options={[
+                                { value: '', label: `Benchmark Exchange (${benchmarkCalendar ? CALENDAR_LABELS[benchmarkCalendar] : 'All Data Dates'})` },
+                                ...(Object.keys(CALENDAR_LABELS) as CalendarId[]).map(c => ({ value: c, label: CALENDAR_LABELS[c] }))
+                            ]} />
+                            {form.rebalanceFreq !== RebalanceFrequency.DAILY && (
+                                <>
+                                    <Select label="Rebalance On" value={form.rebalanceAnchor || 'PeriodStart'} onChange={e => setForm({...form, rebalanceAnchor: e.target.value as RebalanceAnchor})} options={[
+                                        { value: 'PeriodStart', label: 'First Session of Period' },
+                                        { value: 'PeriodEnd', label: 'Sessions Before Period End' },
+                                        { value: 'Weekday', label: 'First Weekday of Period' }
+                                    ]} />
+                                    {form.rebalanceAnchor === 'PeriodEnd' && (
+                                        <Input type="number" label="Sessions Before End (0 = Last)" value={form.rebalanceAnchorOffset || 0} onChange={e => setForm({...form, rebalanceAnchorOffset: Math.max(0, Number(e.target.value))})} />
+                                    )}
+                                    {form.rebalanceAnchor === 'Weekday' && (
+                                        <Select label="Weekday" value={String(form.rebalanceAnchorWeekday ?? 1)} onChange={e => setForm({...form, rebalanceAnchorWeekday: Number(e.target.value)})} options={WEEKDAYS.map((d, i) => ({ value: String(i), label: d }))} />
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </section>
+
+                    <section className="space-y-4">
+                        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Capital Gains Tax</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-400 mb-1.5">Tax Lots</label>
+                                <div className="flex items-center gap-2 h-10 px-3 bg-slate-950 border border-slate-700 rounded-lg">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!form.taxEnabled}
+                                        onChange={e => setForm({...form, taxEnabled: e.target.checked})}
+                                        className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                    />
+                                    <span className="text-xs text-slate-300 font-medium uppercase tracking-tighter">Track &amp; Pay Tax</span>
+                                </div>
+                            </div>
+                            {form.taxEnabled && (
+                                <>
+                                    <Select label="Lot Method" value={form.taxLotMethod || 'FIFO'} onChange={e => setForm({...form, taxLotMethod: e.target.value as TaxLotMethod})} options={[
+                                        { value: 'FIFO', label: 'First In, First Out' },
+                                        { value: 'LIFO', label: 'Last In, First Out' },
+                                        { value: 'HighestCost', label: 'Highest Cost First' }
+                                    ]} />
+                                    <Input type="number" label="Long-Term After (Days)" value={form.longTermDays ?? 365} onChange={e => setForm({...form, longTermDays: Math.max(0, Number(e.target.value))})} />
+                                    <Input type="number" label="Short-Term Rate (%)" value={form.shortTermTaxPct || 0} onChange={e => setForm({...form, shortTermTaxPct: Number(e.target.value)})} />
+                                    <Input type="number" label="Long-Term Rate (%)" value={form.longTermTaxPct || 0} onChange={e => setForm({...form, longTermTaxPct: Number(e.target.value)})} />
+                                    <Input type="number" label="LT Exemption per Year" value={form.longTermExemption || 0} onChange={e => setForm({...form, longTermExemption: Number(e.target.value)})} />
+                                </>
+                            )}
+                        </div>
+                        {form.taxEnabled && (
+                            <p className="text-[10px] text-slate-500">Each year's tax on realized gains, net of carried-forward losses, is paid from cash on the first session of the next year. Short sales are always short-term.</p>
+                        )}
                     </section>
                 </Card>
 
+                {form.type === 'Meta' ? (
+                <Card className="space-y-6 bg-slate-900/60">
+                    <section className="space-y-4">
+                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Sub-Strategy Allocation</h3>
+                         {renderSubStrategyTable()}
+                    </section>
+                </Card>
+                ) : (<>
                 <Card className="space-y-6 bg-slate-900/60">
+                    {form.type === 'Rotation' ? (
                     <section className="space-y-4">
-                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Component Baskets</h3>
+                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Relative-Strength Rotation</h3>
+                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <Select label="Symbol List" value={rotation.listId} onChange={e => updateRotation({ listId: e.target.value })} options={[
+                                { value: '', label: 'Select a list' },
+                                ...symbols.filter(s => s.isList).map(s => ({ value: s.id, label: `${s.ticker} (${(s.listMembers || []).length})` }))
+                            ]} />
+                            <Input label="Lookbacks (Days)" value={lookbacksText ?? rotation.lookbacks.join(', ')} placeholder="63, 126, 252"
+                                onChange={e => { setLookbacksText(e.target.value); updateRotation({ lookbacks: parseLookbacks(e.target.value) }); }} />
+                            <Input type="number" label="Skip (Days)" value={rotation.skipDays} onChange={e => updateRotation({ skipDays: Number(e.target.value) })} />
+                            <Input type="number" label="Hold Top N" value={rotation.topN} onChange={e => updateRotation({ topN: Number(e.target.value) })} />
+                            <Select label="Weighting" value={rotation.weighting} onChange={e => updateRotation({ weighting: e.target.value as RotationWeighting })} options={[
+                                { value: 'Equal', label: 'Equal Weight' },
+                                { value: 'InverseVol', label: 'Inverse Volatility' }
+                            ]} />
+                            {rotation.weighting === 'InverseVol' && (
+                                <Input type="number" label="Vol Lookback (Days)" value={rotation.volLookback} onChange={e => updateRotation({ volLookback: Number(e.target.value) })} />
+                            )}
+                            <div>
+                                <label className="block text-sm font-medium text-slate-400 mb-1.5">Absolute Momentum</label>
+                                <div className="flex items-center gap-2 h-10 px-3 bg-slate-950 border border-slate-700 rounded-lg">
+                                    <input
+                                        type="checkbox"
+                                        checked={rotation.absoluteMomentum}
+                                        onChange={e => updateRotation({ absoluteMomentum: e.target.checked })}
+                                        className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                                    />
+                                    <span className="text-xs text-slate-300 font-medium uppercase tracking-tighter">Negative to Risk Off</span>
+                                </div>
+                            </div>
+                         </div>
+                         {rotationList && (rotationList.listMembers || []).length < rotation.topN && (
+                            <p className="text-[10px] text-amber-400">{rotationList.ticker} has fewer members than Top N; the empty slots stay in the risk-off basket.</p>
+                         )}
+                         <p className="text-[10px] text-slate-500">Members are ranked by their average return over the lookbacks, leaving out the most recent skip days (21 ≈ one month). Rules are optional and time the whole rotation against the risk-off basket.</p>
+                         {renderAssetTable('riskOff', 'Risk Off Components')}
+                    </section>
+                    ) : (
+                    <section className="space-y-4">
+                         <div className="flex justify-between items-center border-b border-slate-800 pb-2">
+                             <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">{form.regimes ? 'Regime Baskets' : 'Component Baskets'}</h3>
+                             <button onClick={form.regimes ? disableRegimes : enableRegimes} className="text-[10px] text-emerald-400 hover:underline">
+                                 {form.regimes ? 'Use Risk On / Risk Off' : 'Use Named Regimes'}
+                             </button>
+                         </div>
+                         {form.regimes ? (
+                         <div className="space-y-6">
+                            <p className="text-[10px] text-slate-500">Order regimes from most risk-on to most defensive. Rules without regime output move weight between the first and last regime; stops and vol-target leftovers go to the last.</p>
+                            {form.regimes.map((regime, idx) => (
+                                <div key={regime.id} className="space-y-2">
+                                    {renderAssetTable(idx, (
+                                        <span className="flex items-center gap-2">
+                                            <input className="bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-200 normal-case tracking-normal w-32" value={regime.name} onChange={e => updateRegime(idx, { name: e.target.value })} />
+                                            <button onClick={() => moveRegime(idx, -1)} disabled={idx === 0} className="text-slate-500 hover:text-slate-200 disabled:opacity-30">↑</button>
+                                            <button onClick={() => moveRegime(idx, 1)} disabled={idx === form.regimes!.length - 1} className="text-slate-500 hover:text-slate-200 disabled:opacity-30">↓</button>
+                                            {form.regimes!.length > 2 && <button onClick={() => removeRegime(idx)} className="text-slate-600 hover:text-red-400 text-[10px]">Remove</button>}
+                                        </span>
+                                    ))}
+                                </div>
+                            ))}
+                            <Button variant="ghost" className="text-[10px] h-7 px-2 border border-slate-800" onClick={addRegime}>+ ADD REGIME</Button>
+                         </div>
+                         ) : (
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                             {renderAssetTable('riskOn', 'Risk On Components')}
                             {renderAssetTable('riskOff', 'Risk Off Components')}
                          </div>
+                         )}
+                    </section>
+                    )}
+
+                    <section className="space-y-4">
+                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Volatility Targeting</h3>
+                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <Input type="number" label="Target Vol (% p.a.)" value={form.volTargetPct || 0} onChange={e => setForm({...form, volTargetPct: Number(e.target.value)})} />
+                            {(form.volTargetPct || 0) > 0 && (
+                                <>
+                                    <Input type="number" label="Lookback (Days)" value={form.volTargetLookback || 63} onChange={e => setForm({...form, volTargetLookback: Number(e.target.value)})} />
+                                    <Input type="number" label="Max Leverage (x)" value={form.volTargetMaxLeverage ?? 1} onChange={e => setForm({...form, volTargetMaxLeverage: Number(e.target.value)})} />
+                                    <Select label="Leftover To" value={form.volTargetLeftover || 'RiskOff'} onChange={e => setForm({...form, volTargetLeftover: e.target.value as VolTargetLeftover})} options={[
+                                        { value: 'RiskOff', label: 'Risk Off Basket' },
+                                        { value: 'Cash', label: 'Cash' }
+                                    ]} />
+                                </>
+                            )}
+                         </div>
+                         <p className="text-[10px] text-slate-500">Scales the basket so its trailing realized volatility meets the target. 0 disables the overlay.</p>
+                    </section>
+
+                    <section className="space-y-4">
+                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Protective Stops</h3>
+                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <Input type="number" label="Stop Loss (%)" value={form.stopLossPct || 0} onChange={e => setForm({...form, stopLossPct: Number(e.target.value)})} />
+                            <Input type="number" label="Trailing Stop (%)" value={form.trailingStopPct || 0} onChange={e => setForm({...form, trailingStopPct: Number(e.target.value)})} />
+                            <Input type="number" label="Take Profit (%)" value={form.takeProfitPct || 0} onChange={e => setForm({...form, takeProfitPct: Number(e.target.value)})} />
+                            <Input type="number" label="Drawdown Breaker (%)" value={form.drawdownBreakerPct || 0} onChange={e => setForm({...form, drawdownBreakerPct: Number(e.target.value)})} />
+                         </div>
+                         <div className="grid grid-cols-2 gap-4">
+                            <Select label="Re-entry" value={form.stopReentry || 'NextRebalance'} onChange={e => setForm({...form, stopReentry: e.target.value as StopReentry})} options={[
+                                { value: 'NextRebalance', label: 'Next Calendar Rebalance' },
+                                { value: 'SignalReset', label: 'After Signal Resets to Risk Off' },
+                                { value: 'Cooldown', label: 'After Cooldown' }
+                            ]} />
+                            {form.stopReentry === 'Cooldown' && (
+                                <Input type="number" label="Cooldown (Days)" value={form.stopCooldownDays || 0} onChange={e => setForm({...form, stopCooldownDays: Number(e.target.value)})} />
+                            )}
+                         </div>
+                         <p className="text-[10px] text-slate-500">Checked daily on strategy NAV; a hit moves the book to the risk-off basket. 0 disables a level.</p>
+                    </section>
+                </Card>
+
+                <Card className="space-y-6 bg-slate-900/60">
+                    <section className="space-y-4">
+                         <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest border-b border-slate-800 pb-2">Signal Ensemble</h3>
+                         <Select label="Signal Source" value={form.signalSymbolId || ''} onChange={e => setForm({...form, signalSymbolId: e.target.value || undefined})} options={[
+                             { value: '', label: form.type === 'Rotation' ? 'Rotation List Composite' : 'First Risk-On Component' },
+                             ...assetOptions.map(o => ({ ...o, label: symbols.find(s => s.id === o.value)?.isList ? `${o.label} (list composite)` : o.label }))
+                         ]} />
+                         {renderRuleTable()}
                     </section>
                 </Card>
+                </>)}
             </div>
 
             <div className="space-y-6">
@@ -275,11 +974,9 @@ export const StrategyBuilder = () => {
                     <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-3 tracking-widest">Summary Preview</h4>
                     <div className="space-y-4 text-xs">
                         <div className="flex justify-between"><span className="text-slate-500">Capital:</span><span className="text-slate-200 font-mono">${form.initialCapital?.toLocaleString()}</span></div>
-                        <div className="flex justify-between"><span className="text-slate-500">Rebalance:</span><span className="text-slate-200">{form.rebalanceFreq}</span></div>
+                        <div className="flex justify-between"><span className="text-slate-500">Rebalance:</span><span className="text-slate-200">{rebalanceSummary()}</span></div>
                         <div className="flex justify-between"><span className="text-slate-500">Signal-Only:</span><span className={form.onlyTradeOnSignalChange ? 'text-emerald-400' : 'text-slate-500'}>{form.onlyTradeOnSignalChange ? 'Enabled' : 'Disabled'}</span></div>
-                        <div className="pt-4 border-t border-slate-800">
-                             <Select label="Regime Switch Rule" value={form.rules?.[0]?.ruleId || ''} onChange={e => setForm({...form, rules: [{ ruleId: e.target.value, weight: 100 }]})} options={AVAILABLE_RULES.map(r => ({ value: r.id, label: r.name }))} />
-                        </div>
+                        <div className="flex justify-between"><span className="text-slate-500">Rules:</span><span className="text-slate-200">{(form.rules || []).length || 'Default'}</span></div>
                     </div>
                 </Card>
             </div>
@@ -303,9 +1000,18 @@ export const StrategyBuilder = () => {
                         <span className="text-[9px] font-mono bg-slate-950 px-2 py-0.5 rounded text-slate-500 border border-slate-800 uppercase">{strat.rebalanceFreq}</span>
                     </div>
                     <div className="grid grid-cols-2 gap-y-1 text-[11px] text-slate-500 mb-4">
-                        <div>Risk-On Assets</div><div className="text-slate-200 text-right">{strat.riskOnComponents.length}</div>
-                        <div>Risk-Off Assets</div><div className="text-slate-200 text-right">{strat.riskOffComponents.length}</div>
+                        {strat.type === 'Meta' ? (<>
+                            <div>Type</div><div className="text-indigo-400 text-right font-bold">META</div>
+                            <div>Sub-Strategies</div><div className="text-slate-200 text-right">{(strat.subStrategyAllocations || []).length}</div>
+                        </>) : strat.type === 'Rotation' ? (<>
+                            <div>Type</div><div className="text-amber-400 text-right font-bold">ROTATION</div>
+                            <div>Universe</div><div className="text-slate-200 text-right truncate">{symbols.find(s => s.id === strat.rotation?.listId)?.ticker || '---'} (Top {strat.rotation?.topN ?? '-'})</div>
+                        </>) : (<>
+                            <div>Risk-On Assets</div><div className="text-slate-200 text-right">{strat.riskOnComponents.length}</div>
+                            <div>Risk-Off Assets</div><div className="text-slate-200 text-right">{strat.riskOffComponents.length}</div>
+                        </>)}
                         <div>Signal-Only</div><div className="text-slate-200 text-right">{strat.onlyTradeOnSignalChange ? 'YES' : 'NO'}</div>
+                        <div>Rules</div><div className="text-slate-200 text-right truncate">{(strat.rules || []).map(r => `${RuleRegistry.get(r.ruleId)?.name || r.ruleId} (${r.weight}%)`).join(', ') || '---'}</div>
                     </div>
                   </div>
                   <div className="mt-4 pt-4 border-t border-slate-800 flex gap-2">
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Card, Button, Input, Select } from '../components/ui';
 import { StorageService } from '../services/storage';
+import { Calendars } from '../services/calendars';
 import { SymbolData, Currency } from '../types';
 
 export const SymbolManager = () => {
@@ -22,18 +23,41 @@ export const SymbolManager = () => {
     setSymbols(StorageService.getSymbols());
   }, []);
 
+  // Lists hold plain symbols only; a list cannot contain itself or another list
+  const memberOptions = symbols.filter(s => !s.isList && s.id !== editingId);
+  const members = form.listMembers || [];
+  const customWeights = !!form.listWeights;
+  const customWeightSum = members.reduce((a, id) => a + (form.listWeights?.[id] || 0), 0);
+
+  const toggleMember = (id: string) => {
+    const next = members.includes(id) ? members.filter(m => m !== id) : [...members, id];
+    const weights = form.listWeights ? Object.fromEntries(next.map(m => [m, form.listWeights![m] || 0])) : undefined;
+    setForm({ ...form, listMembers: next, listWeights: weights });
+  };
+
+  const setWeighting = (custom: boolean) => {
+    const equal = members.length > 0 ? Number((100 / members.length).toFixed(2)) : 0;
+    setForm({ ...form, listWeights: custom ? Object.fromEntries(members.map(m => [m, equal])) : undefined });
+  };
+
   const handleSave = () => {
     if (!form.ticker || !form.name) return;
+    if (form.isList && (form.listMembers || []).length === 0) {
+      alert('Pick at least one member for the list.');
+      return;
+    }
 
     const newSymbol: SymbolData = {
       id: editingId || Date.now().toString(),
       ticker: form.ticker,
       name: form.name,
       exchange: form.exchange || 'NYSE',
+      lotSize: !form.isList && form.lotSize && form.lotSize > 0 && form.lotSize !== 1 ? form.lotSize : undefined,
       defaultCCY: form.defaultCCY || Currency.USD,
       userCCY: form.userCCY,
       isList: form.isList || false,
-      listMembers: []
+      listMembers: form.isList ? form.listMembers || [] : [],
+      listWeights: form.isList && customWeights ? form.listWeights : undefined
     };
 
     StorageService.saveSymbol(newSymbol);
@@ -50,7 +74,7 @@ export const SymbolManager = () => {
   };
 
   const resetForm = () => {
-    setForm({ ticker: '', name: '', exchange: 'NYSE', defaultCCY: Currency.USD, userCCY: Currency.USD, isList: false });
+    setForm({ ticker: '', name: '', exchange: 'NYSE', defaultCCY: Currency.USD, userCCY: Currency.USD, isList: false, listMembers: [] });
     setEditingId(null);
   };
 
@@ -90,7 +114,16 @@ export const SymbolManager = () => {
               {symbols.map((sym) => (
                 <tr key={sym.id} className="hover:bg-slate-800/50 transition-colors">
                   <td className="px-6 py-4 font-medium text-emerald-400">{sym.ticker}</td>
-                  <td className="px-6 py-4 text-slate-300">{sym.name}</td>
+                  <td className="px-6 py-4 text-slate-300">
+                    {sym.name}
+                    {sym.isList && (
+                      <div className="text-xs text-slate-500 mt-0.5">
+                        <span className="text-[10px] font-bold text-amber-400 mr-1">LIST</span>
+                        {(sym.listMembers || []).map(id => symbols.find(s => s.id === id)?.ticker || '?').join(', ')}
+                        {sym.listWeights && <span className="text-slate-600"> (custom weights)</span>}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 text-slate-400">{sym.exchange}</td>
                   <td className="px-6 py-4 text-slate-400">{sym.defaultCCY}</td>
                   <td className="px-6 py-4 text-slate-400">{sym.userCCY || '-'}</td>
@@ -113,7 +146,7 @@ export const SymbolManager = () => {
       {/* Modal Overlay */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-          <Card className="w-full max-w-md mx-4 shadow-2xl bg-slate-900 border-slate-700">
+          <Card className="w-full max-w-md mx-4 shadow-2xl bg-slate-900 border-slate-700 max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-4">{editingId ? 'Edit Symbol' : 'Add New Symbol'}</h3>
             <div className="space-y-4">
               <Input
@@ -129,11 +162,14 @@ export const SymbolManager = () => {
                 placeholder="e.g., S&P 500 ETF"
               />
               <div className="grid grid-cols-2 gap-4">
-                <Input
-                  label="Exchange"
-                  value={form.exchange || ''}
-                  onChange={e => setForm({...form, exchange: e.target.value})}
-                />
+                <div>
+                  <Input
+                    label="Exchange"
+                    value={form.exchange || ''}
+                    onChange={e => setForm({...form, exchange: e.target.value})}
+                  />
+                  <p className="text-[10px] text-slate-500 mt-1">Calendar: {Calendars.forExchange(form.exchange) || 'none (data dates)'}</p>
+                </div>
                  <Select
                   label="Default CCY"
                   value={form.defaultCCY || Currency.USD}
@@ -141,6 +177,14 @@ export const SymbolManager = () => {
                   options={Object.values(Currency).map(c => ({ value: c, label: c }))}
                 />
               </div>
+              {!form.isList && (
+                <Input
+                  type="number"
+                  label="Lot Size (Units per Lot)"
+                  value={form.lotSize || 1}
+                  onChange={e => setForm({...form, lotSize: Number(e.target.value)})}
+                />
+              )}
               <div className="pt-2 border-t border-slate-800">
                 <label className="flex items-center gap-2 mb-2">
                    <input 
@@ -163,6 +207,58 @@ export const SymbolManager = () => {
                     />
                 )}
               </div>
+              <div className="pt-2 border-t border-slate-800 space-y-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!form.isList}
+                    onChange={e => setForm({ ...form, isList: e.target.checked })}
+                    className="rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                  />
+                  <span className="text-sm text-slate-300">Symbol List?</span>
+                </label>
+                {form.isList && (
+                  <>
+                    <Select
+                      label="Member Weights in Baskets"
+                      value={customWeights ? 'Custom' : 'Equal'}
+                      onChange={e => setWeighting(e.target.value === 'Custom')}
+                      options={[{ value: 'Equal', label: 'Equal' }, { value: 'Custom', label: 'Custom' }]}
+                    />
+                    <div className="max-h-56 overflow-y-auto border border-slate-800 rounded-lg divide-y divide-slate-800">
+                      {memberOptions.map(sym => (
+                        <div key={sym.id} className="flex items-center gap-2 px-3 py-1.5">
+                          <label className="flex items-center gap-2 flex-1 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={members.includes(sym.id)}
+                              onChange={() => toggleMember(sym.id)}
+                              className="rounded bg-slate-800 border-slate-600 text-emerald-500 focus:ring-emerald-500"
+                            />
+                            <span className="text-emerald-400 font-medium">{sym.ticker}</span>
+                            <span className="text-slate-500 truncate">{sym.name}</span>
+                          </label>
+                          {customWeights && members.includes(sym.id) && (
+                            <input
+                              type="number"
+                              value={form.listWeights?.[sym.id] ?? 0}
+                              onChange={e => setForm({ ...form, listWeights: { ...form.listWeights, [sym.id]: Number(e.target.value) } })}
+                              className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-xs text-right text-slate-200"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      {memberOptions.length === 0 && <div className="px-3 py-3 text-sm text-slate-500">Add symbols before building a list.</div>}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {members.length} member{members.length === 1 ? '' : 's'}.
+                      {customWeights
+                        ? ` Weights total ${customWeightSum.toFixed(1)}% and are rescaled to the list's allocation in a basket.`
+                        : " A basket allocation to the list is split equally between members."}
+                    </p>
+                  </>
+                )}
+              </div>
             </div>
             <div className="flex gap-3 mt-6 justify-end">
               <Button variant="ghost" onClick={() => setIsModalOpen(false)}>Cancel</Button>
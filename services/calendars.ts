@@ -0,0 +1,177 @@
+import { CalendarId, RebalanceAnchor, RebalanceFrequency } from "../types";
+
+// Dates are handled as whole UTC days so schedules never shift with the browser's time zone
+const DAY_MS = 24 * 3600 * 1000;
+
+const toDay = (date: string): number => Math.floor(Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) / DAY_MS);
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+const weekdayOf = (day: number): number => (day + 4) % 7; // 1970-01-01 was a Thursday
+const dayOf = (year: number, month: number, date: number): number => Date.UTC(year, month, date) / DAY_MS;
+
+// nth (1-based) given weekday of a month; n = -1 is the last one
+const nthWeekday = (year: number, month: number, weekday: number, n: number): number => {
+    if (n < 0) {
+        const last = dayOf(year, month + 1, 0);
+        return last - ((weekdayOf(last) - weekday + 7) % 7);
+    }
+    const first = dayOf(year, month, 1);
+    return first + ((weekday - weekdayOf(first) + 7) % 7) + (n - 1) * 7;
+};
+
+// Saturday holidays move to Friday, Sunday holidays to Monday
+const observed = (day: number): number => weekdayOf(day) === 6 ? day - 1 : weekdayOf(day) === 0 ? day + 1 : day;
+
+// Anonymous Gregorian algorithm
+const easter = (year: number): number => {
+    const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+    const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4), k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    return dayOf(year, month - 1, ((h + l - 7 * m + 114) % 31) + 1);
+};
+
+// Unscheduled NYSE closures (national mourning, weather, 9/11)
+const NYSE_SPECIAL_CLOSURES = [
+    '1994-04-27', '2001-09-11', '2001-09-12', '2001-09-13', '2001-09-14', '2004-06-11',
+    '2007-01-02', '2012-10-29', '2012-10-30', '2018-12-05', '2025-01-09'
+];
+
+const nyseHolidayCache = new Map<number, Set<number>>();
+const nyseHolidays = (year: number): Set<number> => {
+    let days = nyseHolidayCache.get(year);
+    if (days) return days;
+    const newYear = dayOf(year, 0, 1);
+    days = new Set([
+        nthWeekday(year, 1, 1, 3), // Washington's Birthday
+        easter(year) - 2, // Good Friday
+        nthWeekday(year, 4, 1, -1), // Memorial Day
+        observed(dayOf(year, 6, 4)),
+        nthWeekday(year, 8, 1, 1), // Labor Day
+        nthWeekday(year, 10, 4, 4), // Thanksgiving
+        observed(dayOf(year, 11, 25))
+    ]);
+    // A Saturday New Year's Day is not made up on the Friday, which falls in the old year
+    if (weekdayOf(newYear) !== 6) days.add(observed(newYear));
+    if (year >= 1998) days.add(nthWeekday(year, 0, 1, 3)); // Martin Luther King Jr. Day
+    if (year >= 2022) days.add(observed(dayOf(year, 5, 19))); // Juneteenth
+    NYSE_SPECIAL_CLOSURES.filter(d => +d.slice(0, 4) === year).forEach(d => days!.add(toDay(d)));
+    nyseHolidayCache.set(year, days);
+    return days;
+};
+
+const isWeekday = (day: number) => weekdayOf(day) !== 0 && weekdayOf(day) !== 6;
+
+const MONTHS_PER_PERIOD: Partial<Record<RebalanceFrequency, number>> = {
+    [RebalanceFrequency.MONTHLY]: 1,
+    [RebalanceFrequency.BIMONTHLY]: 2,
+    [RebalanceFrequency.QUARTERLY]: 3,
+    [RebalanceFrequency.SEMIANNUALLY]: 6,
+    [RebalanceFrequency.ANNUALLY]: 12
+};
+
+// Rebalance period a day falls in, and the calendar day that period starts on. Weeks run
+// Sunday to Saturday; bi-weekly blocks count from Sunday 1970-01-04 and month blocks from January.
+const periodOf = (freq: RebalanceFrequency, day: number): { key: number; start: number } => {
+    if (freq === RebalanceFrequency.WEEKLY) {
+        const start = day - weekdayOf(day);
+        return { key: start, start };
+    }
+    if (freq === RebalanceFrequency.BIWEEKLY) {
+        const block = Math.floor(Math.floor((day - 3) / 7) / 2);
+        return { key: block, start: 3 + block * 14 };
+    }
+    const months = MONTHS_PER_PERIOD[freq];
+    if (!months) return { key: day, start: day };
+    const d = new Date(day * DAY_MS);
+    const key = Math.floor((d.getUTCFullYear() * 12 + d.getUTCMonth()) / months);
+    return { key, start: dayOf(Math.floor(key * months / 12), (key * months) % 12, 1) };
+};
+
+export const Calendars = {
+    /**
+     * Calendar an exchange trades on, or null when it is not one we model.
+     */
+    forExchange(exchange?: string): CalendarId | null {
+        const code = (exchange || '').trim().toUpperCase();
+        if (['NYSE', 'NASDAQ', 'AMEX', 'NYSEARCA', 'ARCA', 'BATS', 'CBOE'].includes(code)) return 'NYSE';
+        if (['NSE', 'BSE'].includes(code)) return 'NSE';
+        if (['CRYPTO', 'FX', 'FOREX', '24/7'].includes(code)) return 'Always';
+        return null;
+    },
+
+    // Sessions in a year, for turning per-session rates and returns into annual ones
+    sessionsPerYear(calendar: CalendarId | null): number {
+        return calendar === 'Always' ? 365 : 252;
+    },
+
+    /**
+     * Trading sessions from `from` to `to` inclusive. NYSE follows its holiday rules; NSE
+     * holidays are announced yearly, so inside the span of `printed` (dates NSE data has bars
+     * for) its sessions are exactly those dates, and plain weekdays outside it. A null
+     * calendar yields plain weekdays.
+     */
+    sessions(calendar: CalendarId | null, from: string, to: string, printed: Set<string> = new Set()): string[] {
+        const printedDays = Array.from(printed).sort();
+        const [firstPrinted, lastPrinted] = [printedDays[0], printedDays[printedDays.length - 1]];
+        const out: string[] = [];
+        for (let day = toDay(from), end = toDay(to); day <= end; day++) {
+            const date = fromDay(day);
+            if (calendar === 'Always') out.push(date);
+            else if (calendar === 'NSE' && firstPrinted && date >= firstPrinted && date <= lastPrinted) {
+                if (printed.has(date)) out.push(date);
+            } else if (isWeekday(day) && !(calendar === 'NYSE' && nyseHolidays(new Date(day * DAY_MS).getUTCFullYear()).has(day))) {
+                out.push(date);
+            }
+        }
+        return out;
+    },
+
+    /**
+     * The sessions a calendar rebalance lands on: the first or an offset-from-last session of
+     * each period, or its first session on or after a given weekday. `sessions` must be
+     * ascending; 'PeriodEnd' reads ahead on `calendar` to find where the final period ends.
+     */
+    rebalanceDates(
+        sessions: string[],
+        freq: RebalanceFrequency,
+        calendar: CalendarId | null,
+        anchor: RebalanceAnchor = 'PeriodStart',
+        offset = 0,
+        weekday = 1
+    ): Set<string> {
+        if (freq === RebalanceFrequency.DAILY || sessions.length === 0) return new Set(sessions);
+        let days = sessions;
+        if (anchor === 'PeriodEnd') {
+            const last = toDay(sessions[sessions.length - 1]);
+            days = [...sessions, ...Calendars.sessions(calendar, fromDay(last + 1), fromDay(last + 370))];
+        }
+
+        const picks = new Set<string>();
+        let group: string[] = [];
+        let current: { key: number; start: number } | null = null;
+        const close = () => {
+            if (!current || group.length === 0) return;
+            let pick: string | undefined;
+            if (anchor === 'PeriodEnd') pick = group[Math.max(0, group.length - 1 - Math.max(0, Math.floor(offset)))];
+            else if (anchor === 'Weekday') {
+                const target = fromDay(current.start + ((weekday - weekdayOf(current.start) + 7) % 7));
+                pick = group.find(d => d >= target);
+            } else pick = group[0];
+            if (pick) picks.add(pick);
+        };
+        for (const date of days) {
+            const period = periodOf(freq, toDay(date));
+            if (!current || period.key !== current.key) {
+                close();
+                current = period;
+                group = [];
+            }
+            group.push(date);
+        }
+        close();
+        return picks;
+    }
+};
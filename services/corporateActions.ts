@@ -0,0 +1,87 @@
+import { CorporateAction, CorporateActionType, MarketDataPoint } from "../types";
+
+const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+
+// Accepts "4", "4:1", "4/1" or "4-for-1" style ratios
+const parseSplitRatio = (raw: string): number => {
+    const parts = raw.toLowerCase().replace('-for-', ':').split(/[:/]/).map(p => parseFloat(p));
+    if (parts.length === 2 && parts[0] > 0 && parts[1] > 0) return parts[0] / parts[1];
+    return parts[0] > 0 ? parts[0] : NaN;
+};
+
+export const CorporateActions = {
+    parseSplitRatio,
+
+    /**
+     * Maps each dividend onto the first bar on or after its ex-date, so dividends announced for
+     * non-trading days still land in the simulation.
+     */
+    dividendSchedule(bars: MarketDataPoint[], actions: CorporateAction[]): Map<string, number> {
+        const schedule = new Map<string, number>();
+        const sortedBars = [...bars].sort(byDate);
+        let b = 0;
+        actions.filter(a => a.type === 'DIVIDEND' && a.value > 0).sort(byDate).forEach(a => {
+            while (b < sortedBars.length && sortedBars[b].date < a.date) b++;
+            if (b >= sortedBars.length) return;
+            const d = sortedBars[b].date;
+            schedule.set(d, (schedule.get(d) || 0) + a.value);
+        });
+        return schedule;
+    },
+
+    /**
+     * Restates bars before each split in post-split units so raw provider history is continuous.
+     */
+    adjustForSplits(bars: MarketDataPoint[], actions: CorporateAction[]): MarketDataPoint[] {
+        const splits = actions.filter(a => a.type === 'SPLIT' && a.value > 0 && a.value !== 1);
+        if (splits.length === 0) return bars;
+        return bars.map(bar => {
+            const ratio = splits.filter(s => bar.date < s.date).reduce((acc, s) => acc * s.value, 1);
+            if (ratio === 1) return bar;
+            return { ...bar, open: bar.open / ratio, high: bar.high / ratio, low: bar.low / ratio, close: bar.close / ratio, volume: bar.volume * ratio };
+        });
+    },
+
+    /**
+     * Backward-adjusts closes for dividends: each ex-date scales all earlier closes by
+     * (1 - dividend / previous close), so adjClose ratios give total return.
+     */
+    withAdjustedClose(bars: MarketDataPoint[], actions: CorporateAction[]): MarketDataPoint[] {
+        const sorted = [...bars].sort(byDate);
+        const schedule = CorporateActions.dividendSchedule(sorted, actions);
+        const adjusted = new Array<MarketDataPoint>(sorted.length);
+        let factor = 1;
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            adjusted[i] = { ...sorted[i], adjClose: sorted[i].close * factor };
+            const dps = schedule.get(sorted[i].date);
+            const prevClose = sorted[i - 1]?.close;
+            if (dps && prevClose > dps) factor *= 1 - dps / prevClose;
+        }
+        return adjusted;
+    },
+
+    /**
+     * Reads `date,type,value` rows (header optional). Types are DIVIDEND/DIV or SPLIT.
+     */
+    parseCsv(text: string): CorporateAction[] {
+        const actions: CorporateAction[] = [];
+        text.split(/\r?\n/).forEach(line => {
+            const [date, rawType, rawValue] = line.split(',').map(c => c.trim());
+            if (!date || !rawType || !rawValue || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+            const t = rawType.toUpperCase();
+            const type: CorporateActionType | null = t.startsWith('DIV') ? 'DIVIDEND' : t.startsWith('SPLIT') ? 'SPLIT' : null;
+            if (!type) return;
+            const value = type === 'SPLIT' ? parseSplitRatio(rawValue) : parseFloat(rawValue);
+            if (isFinite(value) && value > 0) actions.push({ date, type, value });
+        });
+        return actions.sort(byDate);
+    },
+
+    // Incoming events replace existing ones of the same type on the same date
+    merge(existing: CorporateAction[], incoming: CorporateAction[]): CorporateAction[] {
+        const keyOf = (a: CorporateAction) => `${a.date}|${a.type}`;
+        const merged = new Map(existing.map(a => [keyOf(a), a]));
+        incoming.forEach(a => merged.set(keyOf(a), a));
+        return Array.from(merged.values()).sort(byDate);
+    }
+};
@@ -0,0 +1,105 @@
+import { CostModelKind, Strategy } from "../types";
+
+export type CostComponent = 'Commission' | 'Slippage' | 'Impact' | 'STT' | 'Exchange' | 'SEBI' | 'GST' | 'Stamp';
+
+export type CostBreakdown = Partial<Record<CostComponent, number>>;
+
+export interface OrderCost {
+    total: number;
+    breakdown: CostBreakdown;
+}
+
+export const COST_MODEL_LABELS: Record<CostModelKind, string> = {
+    Percentage: 'Percentage of Value',
+    PerShare: 'Per Share',
+    Tiered: 'Tiered by Order Value',
+    IndiaDeliveryETF: 'India Delivery (ETF)'
+};
+
+// Statutory charges on NSE delivery trades in equity ETFs, as % of order value. GST applies to
+// brokerage and the exchange and SEBI fees, not to STT or stamp duty.
+export const INDIA_DELIVERY_ETF = {
+    sttBuyPct: 0,
+    sttSellPct: 0.001,
+    exchangePct: 0.00297,
+    sebiPct: 0.0001,
+    stampBuyPct: 0.015,
+    gstPct: 18
+};
+
+const commission = (strategy: Strategy, value: number, shares: number): number => {
+    const kind = strategy.costModel || 'Percentage';
+    let fee: number;
+    if (kind === 'PerShare') {
+        fee = Math.abs(shares) * (strategy.commissionPerShare || 0);
+        if (strategy.commissionMaxPct && strategy.commissionMaxPct > 0) fee = Math.min(fee, value * strategy.commissionMaxPct / 100);
+    } else if (kind === 'Tiered') {
+        // Value above the last bounded tier pays that tier's rate
+        const tiers = strategy.commissionTiers || [];
+        fee = 0;
+        let from = 0;
+        for (const tier of tiers) {
+            if (from >= value) break;
+            const to = tier.upTo && tier.upTo > from ? Math.min(value, tier.upTo) : value;
+            fee += (to - from) * tier.pct / 100;
+            from = to;
+        }
+        if (from < value && tiers.length > 0) fee += (value - from) * tiers[tiers.length - 1].pct / 100;
+    } else {
+        fee = value * strategy.transactionCostPct / 100;
+    }
+    return Math.max(fee, strategy.minCommission || 0);
+};
+
+export const CostModels = {
+    /**
+     * Everything paid on one order of `value` (base currency, always positive) for `shares` units.
+     * With the ticker's average daily volume `adv`, market impact grows with the square root of
+     * the order's share of it.
+     */
+    orderCost(strategy: Strategy, side: 'BUY' | 'SELL', value: number, shares: number, adv = 0): OrderCost {
+        if (!(value > 0)) return { total: 0, breakdown: {} };
+        const breakdown: CostBreakdown = {
+            Commission: commission(strategy, value, shares),
+            Slippage: value * strategy.slippagePct / 100
+        };
+        if (strategy.impactPct && adv > 0) breakdown.Impact = value * strategy.impactPct / 100 * Math.sqrt(Math.abs(shares) / adv);
+        if (strategy.costModel === 'IndiaDeliveryETF') {
+            const levies = INDIA_DELIVERY_ETF;
+            breakdown.STT = value * (side === 'BUY' ? levies.sttBuyPct : levies.sttSellPct) / 100;
+            breakdown.Exchange = value * levies.exchangePct / 100;
+            breakdown.SEBI = value * levies.sebiPct / 100;
+            breakdown.Stamp = side === 'BUY' ? value * levies.stampBuyPct / 100 : 0;
+            breakdown.GST = (breakdown.Commission! + breakdown.Exchange + breakdown.SEBI) * levies.gstPct / 100;
+        }
+        const total = Object.values(breakdown).reduce((a, c) => a + (c || 0), 0);
+        return { total, breakdown };
+    },
+
+    /**
+     * Largest order whose value plus costs fits in `budget`. Fixed and tiered fees are not
+     * proportional to size, so the order is scaled down a few times until it fits.
+     */
+    fitOrder(strategy: Strategy, side: 'BUY' | 'SELL', value: number, price: number, budget: number, adv = 0): { value: number; cost: OrderCost } {
+        let cost = CostModels.orderCost(strategy, side, value, value / price, adv);
+        for (let k = 0; k < 5 && value > 0 && value + cost.total > budget; k++) {
+            value = Math.max(0, budget * value / (value + cost.total));
+            cost = CostModels.orderCost(strategy, side, value, value / price, adv);
+        }
+        return { value, cost };
+    },
+
+    // Splits one order's costs across the trade records it produces (e.g. a sell that flips to a short)
+    scale(breakdown: CostBreakdown, share: number): CostBreakdown {
+        const out: CostBreakdown = {};
+        (Object.keys(breakdown) as CostComponent[]).forEach(k => { if (breakdown[k]) out[k] = breakdown[k]! * share; });
+        return out;
+    },
+
+    // Component-wise sum, for an order filled over several sessions
+    add(a: CostBreakdown, b: CostBreakdown): CostBreakdown {
+        const out: CostBreakdown = { ...a };
+        (Object.keys(b) as CostComponent[]).forEach(k => { if (b[k]) out[k] = (out[k] || 0) + b[k]!; });
+        return out;
+    }
+};
@@ -0,0 +1,47 @@
+import { Strategy } from "../types";
+import { StrategyEngine } from "./strategyEngine";
+import { EngineData } from "./engineData";
+import type { DataMethod, WorkerInbound, WorkerOutbound } from "./enginePool";
+
+// Runs simulations off the main thread. Storage lives on the main thread, so data reads and
+// writes are forwarded there and answered with a dataResponse message.
+const ctx = self as unknown as Worker;
+const post = (msg: WorkerOutbound) => ctx.postMessage(msg);
+
+const pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void }>();
+let requestSeq = 0;
+let strategies: Strategy[] = [];
+
+const request = <T>(method: DataMethod, args: unknown[]): Promise<T> => new Promise((resolve, reject) => {
+    const requestId = ++requestSeq;
+    pending.set(requestId, { resolve, reject });
+    post({ type: 'data', requestId, method, args });
+});
+
+EngineData.use({
+    getMarketData: key => request('getMarketData', [key]),
+    saveMarketData: (key, data) => request('saveMarketData', [key, data]),
+    getCorporateActions: ticker => request('getCorporateActions', [ticker]),
+    getStrategies: () => strategies // Snapshot sent with each run; localStorage is not available here
+});
+
+ctx.onmessage = async (e: MessageEvent<WorkerInbound>) => {
+    const msg = e.data;
+    if (msg.type === 'dataResponse') {
+        const waiter = pending.get(msg.requestId);
+        pending.delete(msg.requestId);
+        if (msg.error) waiter?.reject(new Error(msg.error));
+        else waiter?.resolve(msg.result);
+        return;
+    }
+
+    strategies = msg.strategies;
+    try {
+        const result = await StrategyEngine.runSimulation(msg.strategy, msg.symbols, msg.startDate, msg.endDate, [], {
+            onProgress: (done, total) => post({ type: 'progress', jobId: msg.jobId, done, total })
+        });
+        post({ type: 'result', jobId: msg.jobId, result });
+    } catch (err: any) {
+        post({ type: 'error', jobId: msg.jobId, message: err?.message || 'Simulation failed.' });
+    }
+};
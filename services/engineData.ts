@@ -0,0 +1,31 @@
+import { CorporateAction, MarketDataPoint, Strategy } from "../types";
+import { StorageService } from "./storage";
+
+/**
+ * Everything the engine reads or writes outside its inputs. On the main thread this is the
+ * storage layer; inside the engine worker it is swapped for calls back to the main thread.
+ */
+export interface EngineDataSource {
+    getMarketData: (key: string) => Promise<MarketDataPoint[] | null>;
+    saveMarketData: (key: string, data: MarketDataPoint[]) => Promise<boolean>;
+    getCorporateActions: (ticker: string) => Promise<CorporateAction[]>;
+    getStrategies: () => Strategy[];
+}
+
+let source: EngineDataSource = {
+    getMarketData: key => StorageService.getMarketData(key),
+    saveMarketData: (key, data) => StorageService.saveMarketData(key, data),
+    getCorporateActions: ticker => StorageService.getCorporateActions(ticker),
+    getStrategies: () => StorageService.getStrategies()
+};
+
+export const EngineData = {
+    getMarketData: (key: string) => source.getMarketData(key),
+    saveMarketData: (key: string, data: MarketDataPoint[]) => source.saveMarketData(key, data),
+    getCorporateActions: (ticker: string) => source.getCorporateActions(ticker),
+    getStrategies: () => source.getStrategies(),
+
+    use: (next: EngineDataSource) => {
+        source = next;
+    }
+};
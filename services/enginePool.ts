@@ -0,0 +1,178 @@
+import { Strategy, SymbolData } from "../types";
+import { StrategyEngine, DetailedSimResult } from "./strategyEngine";
+import { StorageService } from "./storage";
+
+export const CANCELLED_MESSAGE = 'Simulation cancelled.';
+
+export interface EngineJob<T> {
+    promise: Promise<T>;
+    cancel: () => void;
+}
+
+export interface SimulationRequest {
+    strategy: Strategy;
+    symbols: SymbolData[];
+    startDate?: string;
+    endDate?: string;
+}
+
+export type ProgressHandler = (done: number, total: number) => void;
+
+// Messages exchanged with services/engine.worker.ts
+export type WorkerInbound =
+    | ({ type: 'run'; jobId: number; strategies: Strategy[] } & SimulationRequest)
+    | { type: 'dataResponse'; requestId: number; result?: unknown; error?: string };
+
+export type WorkerOutbound =
+    | { type: 'progress'; jobId: number; done: number; total: number }
+    | { type: 'result'; jobId: number; result: DetailedSimResult }
+    | { type: 'error'; jobId: number; message: string }
+    | { type: 'data'; requestId: number; method: DataMethod; args: any[] };
+
+// Storage calls a worker may make; storage itself stays on the main thread
+const DATA_METHODS = {
+    getMarketData: (key: string) => StorageService.getMarketData(key),
+    saveMarketData: (key: string, data: any) => StorageService.saveMarketData(key, data),
+    getCorporateActions: (ticker: string) => StorageService.getCorporateActions(ticker)
+};
+
+export type DataMethod = keyof typeof DATA_METHODS;
+
+interface Task {
+    id: number;
+    request: SimulationRequest;
+    onProgress?: ProgressHandler;
+    resolve: (r: DetailedSimResult) => void;
+    reject: (e: Error) => void;
+}
+
+interface Slot {
+    worker: Worker;
+    task: Task | null;
+}
+
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2) - 1));
+
+const slots: Slot[] = [];
+const queue: Task[] = [];
+let nextJobId = 1;
+
+const spawnWorker = (slot: Slot) => {
+    slot.worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    slot.worker.onmessage = (e: MessageEvent<WorkerOutbound>) => handleMessage(slot, e.data);
+    slot.worker.onerror = (e: ErrorEvent) => {
+        const task = slot.task;
+        // A crashed worker is replaced so later jobs still have a full pool
+        slot.worker.terminate();
+        spawnWorker(slot);
+        slot.task = null;
+        task?.reject(new Error(e.message || 'Engine worker crashed.'));
+        dispatch();
+    };
+};
+
+const finish = (slot: Slot, settle: (task: Task) => void) => {
+    const task = slot.task;
+    slot.task = null;
+    if (task) settle(task);
+    dispatch();
+};
+
+const handleMessage = async (slot: Slot, msg: WorkerOutbound) => {
+    if (msg.type === 'data') {
+        const worker = slot.worker;
+        try {
+            const result = await (DATA_METHODS[msg.method] as (...args: any[]) => Promise<unknown>)(...msg.args);
+            worker.postMessage({ type: 'dataResponse', requestId: msg.requestId, result } as WorkerInbound);
+        } catch (e: any) {
+            worker.postMessage({ type: 'dataResponse', requestId: msg.requestId, error: e?.message || 'Storage error' } as WorkerInbound);
+        }
+        return;
+    }
+    if (!slot.task || msg.jobId !== slot.task.id) return;
+    if (msg.type === 'progress') slot.task.onProgress?.(msg.done, msg.total);
+    else if (msg.type === 'result') finish(slot, t => t.resolve(msg.result));
+    else finish(slot, t => t.reject(new Error(msg.message)));
+};
+
+const dispatch = () => {
+    while (queue.length > 0) {
+        let slot = slots.find(s => s.task === null);
+        if (!slot && slots.length < POOL_SIZE) {
+            slot = { worker: null as unknown as Worker, task: null };
+            spawnWorker(slot);
+            slots.push(slot);
+        }
+        if (!slot) return;
+        const task = queue.shift()!;
+        slot.task = task;
+        const msg: WorkerInbound = { type: 'run', jobId: task.id, strategies: StorageService.getStrategies(), ...task.request };
+        slot.worker.postMessage(msg);
+    }
+};
+
+const cancelTask = (task: Task) => {
+    const queued = queue.indexOf(task);
+    if (queued >= 0) {
+        queue.splice(queued, 1);
+    } else {
+        // The engine loop is synchronous inside the worker, so the only way to stop it is to replace the worker
+        const slot = slots.find(s => s.task === task);
+        if (!slot) return;
+        slot.worker.terminate();
+        spawnWorker(slot);
+        slot.task = null;
+    }
+    task.reject(new Error(CANCELLED_MESSAGE));
+    dispatch();
+};
+
+// Browsers without module workers (and non-browser callers) run on the calling thread
+const supportsWorkers = () => typeof Worker !== 'undefined';
+
+export const EnginePool = {
+    /**
+     * Queues one simulation on the shared worker pool.
+     */
+    run(request: SimulationRequest, onProgress?: ProgressHandler): EngineJob<DetailedSimResult> {
+        if (!supportsWorkers()) {
+            // Without a worker to terminate, the run stops at its next progress report
+            let cancelled = false;
+            const checkCancelled = () => { if (cancelled) throw new Error(CANCELLED_MESSAGE); };
+            const hooks = { onProgress: (done: number, total: number) => { checkCancelled(); onProgress?.(done, total); } };
+            return {
+                promise: StrategyEngine.runSimulation(request.strategy, request.symbols, request.startDate, request.endDate, [], hooks).then(result => {
+                    checkCancelled();
+                    return result;
+                }),
+                cancel: () => { cancelled = true; }
+            };
+        }
+        let task!: Task;
+        const promise = new Promise<DetailedSimResult>((resolve, reject) => {
+            task = { id: nextJobId++, request, onProgress, resolve, reject };
+        });
+        queue.push(task);
+        dispatch();
+        return { promise, cancel: () => cancelTask(task) };
+    },
+
+    /**
+     * Runs many simulations across the pool. Progress counts finished runs; results keep the
+     * order of `requests`. The first failure cancels whatever is still queued or running.
+     */
+    runBatch(requests: SimulationRequest[], onProgress?: ProgressHandler): EngineJob<DetailedSimResult[]> {
+        let done = 0;
+        const jobs = requests.map(r => EnginePool.run(r));
+        const cancel = () => jobs.forEach(j => j.cancel());
+        const promise = Promise.all(jobs.map(j => j.promise.then(res => {
+            done++;
+            onProgress?.(done, requests.length);
+            return res;
+        }))).catch(err => {
+            cancel();
+            throw err;
+        });
+        return { promise, cancel };
+    }
+};
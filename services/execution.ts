@@ -0,0 +1,35 @@
+import { ExecutionModel, PriceType, Strategy } from "../types";
+
+export const EXECUTION_MODEL_LABELS: Record<ExecutionModel, string> = {
+    SameBar: 'Same Session (Price Ref)',
+    NextOpen: 'Next Open',
+    VWAP: 'VWAP Proxy',
+    TWAP: 'TWAP'
+};
+
+export const ExecutionModels = {
+    // Bar price each session's fill takes; VWAP uses the typical price (H+L+C)/3
+    priceType(strategy: Strategy): PriceType {
+        const model = strategy.executionModel || 'SameBar';
+        if (model === 'NextOpen') return PriceType.OPEN;
+        if (model === 'VWAP') return PriceType.AVG;
+        return strategy.pricePreference;
+    },
+
+    // Sessions one order is worked over
+    sessions(strategy: Strategy): number {
+        const model = strategy.executionModel || 'SameBar';
+        return model === 'VWAP' || model === 'TWAP' ? Math.max(1, Math.floor(strategy.executionDays || 1)) : 1;
+    },
+
+    /**
+     * Share of an order's outstanding quantity to fill in a session, with `left` sessions to go
+     * including this one. TWAP splits the rest evenly; VWAP weighs the session's volume against
+     * the trailing average expected from each session after it, evenly when either is missing.
+     */
+    sliceShare(strategy: Strategy, left: number, volume: number, adv: number): number {
+        if (left <= 1) return 1;
+        if (strategy.executionModel === 'VWAP' && volume > 0 && adv > 0) return volume / (volume + (left - 1) * adv);
+        return 1 / left;
+    }
+};
@@ -0,0 +1,132 @@
+import { Currency, MarketDataPoint, Strategy, SymbolData, CorporateAction } from "../types";
+import { EngineData } from "./engineData";
+
+export const FX_PREFIX = 'FX:';
+
+// Every currency is stored against USD; other crosses are triangulated through it
+const ANCHOR = Currency.USD;
+
+export interface FxPair {
+    from: Currency;
+    to: Currency;
+    key: string; // Market data store key, e.g. FX:USDINR = INR per 1 USD
+}
+
+interface FxRates {
+    dates: string[]; // Ascending
+    rates: number[]; // Units of `to` per unit of `from`
+}
+
+const pairKey = (from: Currency, to: Currency) => `${FX_PREFIX}${from}${to}`;
+
+const toRates = (data: MarketDataPoint[]): FxRates => {
+    const sorted = data.filter(d => d.close > 0).sort((a, b) => a.date.localeCompare(b.date));
+    return { dates: sorted.map(d => d.date), rates: sorted.map(d => d.close) };
+};
+
+// Latest rate on or before `date`; FX trades on its own calendar, so gaps are forward-filled
+const rateOn = (fx: FxRates, date: string): number | null => {
+    let lo = 0, hi = fx.dates.length - 1, found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (fx.dates[mid] <= date) { found = mid; lo = mid + 1; }
+        else hi = mid - 1;
+    }
+    return found >= 0 ? fx.rates[found] : null;
+};
+
+const loadDirect = async (from: Currency, to: Currency): Promise<FxRates | null> => {
+    const direct = await EngineData.getMarketData(pairKey(from, to));
+    if (direct && direct.length > 0) return toRates(direct);
+    const inverse = await EngineData.getMarketData(pairKey(to, from));
+    if (inverse && inverse.length > 0) {
+        const fx = toRates(inverse);
+        return { dates: fx.dates, rates: fx.rates.map(r => 1 / r) };
+    }
+    return null;
+};
+
+export const FxService = {
+    pairKey,
+
+    /**
+     * Currency a strategy reports NAV, benchmark and trades in. Falls back to the benchmark's
+     * target currency so existing single-market strategies keep their natural unit.
+     */
+    baseCurrency(strategy: Strategy, symbols: SymbolData[]): Currency {
+        if (strategy.baseCurrency) return strategy.baseCurrency;
+        const bm = symbols.find(s => s.id === strategy.benchmarkSymbolId);
+        return bm?.userCCY || bm?.defaultCCY || ANCHOR;
+    },
+
+    /**
+     * USD pairs needed to convert between every currency the symbols and strategies mention.
+     */
+    requiredPairs(symbols: SymbolData[], strategies: Strategy[]): FxPair[] {
+        const ccys = new Set<Currency>();
+        symbols.forEach(s => {
+            ccys.add(s.defaultCCY);
+            if (s.userCCY) ccys.add(s.userCCY);
+        });
+        strategies.forEach(s => { if (s.baseCurrency) ccys.add(s.baseCurrency); });
+        return Array.from(ccys)
+            .filter(c => c && c !== ANCHOR)
+            .map(c => ({ from: ANCHOR, to: c, key: pairKey(ANCHOR, c) }));
+    },
+
+    // Ticker the given data provider uses for a currency pair
+    providerTicker(pair: FxPair, provider: string): string {
+        return provider === 'eodhd' ? `${pair.from}${pair.to}.FOREX` : `${pair.from}${pair.to}=X`;
+    },
+
+    async loadRates(from: Currency, to: Currency): Promise<FxRates | null> {
+        if (from === to) return null;
+        const direct = await loadDirect(from, to);
+        if (direct) return direct;
+        if (from === ANCHOR || to === ANCHOR) return null;
+
+        const legFrom = await loadDirect(ANCHOR, from);
+        const legTo = await loadDirect(ANCHOR, to);
+        if (!legFrom || !legTo) return null;
+        const dates = Array.from(new Set([...legFrom.dates, ...legTo.dates])).sort();
+        const cross: FxRates = { dates: [], rates: [] };
+        dates.forEach(d => {
+            const a = rateOn(legFrom, d);
+            const b = rateOn(legTo, d);
+            if (a && b) { cross.dates.push(d); cross.rates.push(b / a); }
+        });
+        return cross;
+    },
+
+    /**
+     * Restates a price series from `from` into `to`. Bars before the first available rate are
+     * dropped rather than converted at a guessed rate.
+     */
+    async convertSeries(data: MarketDataPoint[], from: Currency, to: Currency): Promise<MarketDataPoint[]> {
+        if (from === to) return data;
+        const fx = await FxService.loadRates(from, to);
+        if (!fx || fx.dates.length === 0) throw new Error(`Missing FX history for ${from}/${to}`);
+        const converted: MarketDataPoint[] = [];
+        data.forEach(d => {
+            const r = rateOn(fx, d.date);
+            if (r === null) return;
+            converted.push({
+                ...d, open: d.open * r, high: d.high * r, low: d.low * r, close: d.close * r,
+                adjClose: d.adjClose !== undefined ? d.adjClose * r : undefined
+            });
+        });
+        return converted;
+    },
+
+    // Restates dividend amounts at the rate on their ex-date; splits are currency-free
+    async convertActions(actions: CorporateAction[], from: Currency, to: Currency): Promise<CorporateAction[]> {
+        if (from === to || !actions.some(a => a.type === 'DIVIDEND')) return actions;
+        const fx = await FxService.loadRates(from, to);
+        if (!fx || fx.dates.length === 0) throw new Error(`Missing FX history for ${from}/${to}`);
+        return actions.flatMap(a => {
+            if (a.type !== 'DIVIDEND') return [a];
+            const r = rateOn(fx, a.date);
+            return r === null ? [] : [{ ...a, value: a.value * r }];
+        });
+    }
+};
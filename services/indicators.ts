@@ -0,0 +1,198 @@
+import { MarketDataPoint } from "../types";
+
+const TRADING_DAYS = 252;
+
+export enum VolEstimator {
+    CLOSE_TO_CLOSE = 0,
+    PARKINSON = 1,
+    GARMAN_KLASS = 2,
+    ATR = 3
+}
+
+export const VOL_ESTIMATOR_OPTIONS = [
+    { value: VolEstimator.CLOSE_TO_CLOSE, label: 'Close-to-Close' },
+    { value: VolEstimator.PARKINSON, label: 'Parkinson (H/L)' },
+    { value: VolEstimator.GARMAN_KLASS, label: 'Garman-Klass (OHLC)' },
+    { value: VolEstimator.ATR, label: 'ATR (% of Price)' }
+];
+
+// Bars missing a usable range fall back to close-only data, so estimators never see log(0)
+const hasRange = (b: MarketDataPoint) => b.high > 0 && b.low > 0 && b.high >= b.low;
+
+export interface IndicatorPipeline {
+    ma(idx: number, period: number): number | null;
+    momentum(idx: number, period: number): number | null;
+    volatility(idx: number, period: number, estimator?: VolEstimator): number | null;
+    atr(idx: number, period: number): number | null;
+}
+
+// Fewest usable bars a trailing window needs before any indicator is reported
+const MIN_WINDOW_BARS = 5;
+
+/**
+ * Precomputes prefix sums over a date-aligned bar array (undefined where the ticker did not trade)
+ * so every trailing-window query is O(1). Windows end at idx - 1, never reading the bar at idx.
+ * Volatility is annualized over `sessionsPerYear`: the sample deviation of daily log returns, the Parkinson (1980) and
+ * Garman-Klass (1980) range estimators, or the average true range relative to the last close.
+ */
+export const buildIndicatorPipeline = (bars: (MarketDataPoint | undefined)[], sessionsPerYear = TRADING_DAYS): IndicatorPipeline => {
+    const n = bars.length;
+    const valid = bars.map(b => !!b && b.close > 0);
+    const prefix = () => new Float64Array(n + 1);
+    const closeSum = prefix(), validCnt = prefix();
+    const retSum = prefix(), retSqSum = prefix(), retCnt = prefix();
+    const trSum = prefix(), trCnt = prefix();
+    const pkSum = prefix(), pkCnt = prefix();
+    const gkSum = prefix(), gkCnt = prefix();
+    const range = new Float64Array(n);
+    const firstValidFrom = new Int32Array(n + 1).fill(n);
+    const lastValidBefore = new Int32Array(n + 1).fill(-1);
+
+    let prev = -1;
+    for (let j = 0; j < n; j++) {
+        lastValidBefore[j] = prev;
+        const b = bars[j];
+        let close = 0, ret = 0, hasRet = 0, tr = 0, hasTr = 0, pk = 0, gk = 0, hasGk = 0;
+        if (valid[j] && b) {
+            close = b.close;
+            if (prev >= 0) { ret = Math.log(b.close / bars[prev]!.close); hasRet = 1; }
+            if (hasRange(b)) {
+                range[j] = b.high - b.low;
+                const pc = prev >= 0 ? bars[prev]!.close : 0;
+                tr = pc > 0 ? Math.max(b.high - b.low, Math.abs(b.high - pc), Math.abs(b.low - pc)) : b.high - b.low;
+                hasTr = 1;
+                pk = Math.log(b.high / b.low) ** 2;
+                if (b.open > 0) {
+                    gk = 0.5 * Math.log(b.high / b.low) ** 2 - (2 * Math.LN2 - 1) * Math.log(b.close / b.open) ** 2;
+                    hasGk = 1;
+                }
+            }
+            prev = j;
+        }
+        closeSum[j + 1] = closeSum[j] + close;
+        validCnt[j + 1] = validCnt[j] + (valid[j] ? 1 : 0);
+        retSum[j + 1] = retSum[j] + ret;
+        retSqSum[j + 1] = retSqSum[j] + ret * ret;
+        retCnt[j + 1] = retCnt[j] + hasRet;
+        trSum[j + 1] = trSum[j] + tr;
+        trCnt[j + 1] = trCnt[j] + hasTr;
+        pkSum[j + 1] = pkSum[j] + pk;
+        pkCnt[j + 1] = pkCnt[j] + hasTr;
+        gkSum[j + 1] = gkSum[j] + gk;
+        gkCnt[j + 1] = gkCnt[j] + hasGk;
+    }
+    lastValidBefore[n] = prev;
+    for (let j = n - 1; j >= 0; j--) firstValidFrom[j] = valid[j] ? j : firstValidFrom[j + 1];
+
+    const closeAt = (j: number) => (j >= 0 && j < n && valid[j] ? bars[j]!.close : 0);
+
+    // Window [a, idx - 1]; returns and true ranges of its first bar look outside it, so skip them
+    const windowOf = (idx: number, period: number) => {
+        const a = Math.max(0, idx - period);
+        const first = firstValidFrom[a];
+        return { a, first, count: validCnt[idx] - validCnt[a] };
+    };
+
+    const closeToClose = (idx: number, first: number): number | null => {
+        if (first >= idx) return null;
+        const cnt = retCnt[idx] - retCnt[first + 1];
+        if (cnt < 2) return null;
+        const sum = retSum[idx] - retSum[first + 1];
+        const variance = Math.max(0, (retSqSum[idx] - retSqSum[first + 1] - (sum * sum) / cnt) / (cnt - 1));
+        return Math.sqrt(variance * sessionsPerYear);
+    };
+
+    const atrOf = (idx: number, a: number, first: number): number | null => {
+        const cnt = trCnt[idx] - trCnt[a];
+        if (cnt === 0 || first >= idx) return null;
+        const firstRange = trCnt[first + 1] - trCnt[first] > 0 ? range[first] : 0;
+        return (trSum[idx] - trSum[first + 1] + firstRange) / cnt;
+    };
+
+    return {
+        ma(idx, period) {
+            const lookback = Math.min(idx, period);
+            if (lookback < MIN_WINDOW_BARS) return null;
+            const cnt = validCnt[idx] - validCnt[idx - lookback];
+            return cnt > 0 ? (closeSum[idx] - closeSum[idx - lookback]) / cnt : null;
+        },
+
+        momentum(idx, period) {
+            const lookback = Math.min(idx, period);
+            if (lookback < MIN_WINDOW_BARS) return null;
+            const pNow = closeAt(idx - 1);
+            const pThen = closeAt(idx - 1 - lookback);
+            return (pNow > 0 && pThen > 0) ? (pNow / pThen) - 1 : null;
+        },
+
+        volatility(idx, period, estimator = VolEstimator.CLOSE_TO_CLOSE) {
+            const { a, first, count } = windowOf(idx, period);
+            if (count < MIN_WINDOW_BARS) return null;
+            switch (estimator) {
+                case VolEstimator.PARKINSON: {
+                    const cnt = pkCnt[idx] - pkCnt[a];
+                    return cnt < 2 ? null : Math.sqrt(((pkSum[idx] - pkSum[a]) / cnt / (4 * Math.LN2)) * sessionsPerYear);
+                }
+                case VolEstimator.GARMAN_KLASS: {
+                    const cnt = gkCnt[idx] - gkCnt[a];
+                    return cnt < 2 ? null : Math.sqrt(Math.max(0, (gkSum[idx] - gkSum[a]) / cnt) * sessionsPerYear);
+                }
+                case VolEstimator.ATR: {
+                    const atr = atrOf(idx, a, first);
+                    const last = closeAt(lastValidBefore[idx]);
+                    return atr !== null && last > 0 ? (atr / last) * Math.sqrt(sessionsPerYear) : null;
+                }
+                default: return closeToClose(idx, first);
+            }
+        },
+
+        atr(idx, period) {
+            const { a, first, count } = windowOf(idx, period);
+            return count < MIN_WINDOW_BARS ? null : atrOf(idx, a, first);
+        }
+    };
+};
+
+export interface LevelPipeline {
+    last(idx: number): number | null;
+    ma(idx: number, period: number): number | null;
+    change(idx: number, period: number): number | null;
+}
+
+/**
+ * Trailing statistics of a level series that may be zero or negative, aligned like the price
+ * pipeline and likewise reading only up to idx - 1. Series published on another calendar (FRED
+ * spreads, index levels) carry their last value forward over gaps.
+ */
+export const buildLevelPipeline = (values: (number | undefined)[]): LevelPipeline => {
+    const n = values.length;
+    const filled = new Float64Array(n);
+    const has = new Uint8Array(n);
+    const sum = new Float64Array(n + 1), cnt = new Float64Array(n + 1);
+    let last: number | undefined;
+    for (let j = 0; j < n; j++) {
+        const v = values[j];
+        if (v !== undefined && isFinite(v)) last = v;
+        if (last !== undefined) { filled[j] = last; has[j] = 1; }
+        sum[j + 1] = sum[j] + filled[j];
+        cnt[j + 1] = cnt[j] + has[j];
+    }
+    const at = (j: number) => (j >= 0 && j < n && has[j] ? filled[j] : null);
+
+    return {
+        last: idx => at(idx - 1),
+
+        ma(idx, period) {
+            const lookback = Math.min(idx, Math.max(1, Math.floor(period)));
+            const count = lookback > 0 ? cnt[idx] - cnt[idx - lookback] : 0;
+            if (count < Math.min(lookback, MIN_WINDOW_BARS)) return null;
+            return (sum[idx] - sum[idx - lookback]) / count;
+        },
+
+        change(idx, period) {
+            const now = at(idx - 1);
+            const then = at(idx - 1 - Math.max(1, Math.floor(period)));
+            return now !== null && then !== null ? now - then : null;
+        }
+    };
+};
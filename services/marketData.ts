@@ -1,10 +1,18 @@
 
-import { MarketDataPoint } from '../types';
+import { MarketDataPoint, CorporateAction } from '../types';
+import { CorporateActions } from './corporateActions';
 
 const YAHOO_BASE = 'https://query1.finance.yahoo.com/v8/finance/chart/';
 const EODHD_BASE = 'https://eodhd.com/api/eod/';
+const EODHD_DIV_BASE = 'https://eodhd.com/api/div/';
+const EODHD_SPLITS_BASE = 'https://eodhd.com/api/splits/';
 const EODHD_DEFAULT_KEY = '68ff66761ac269.80544168';
 
+export interface HistoryWithActions {
+    data: MarketDataPoint[];
+    actions: CorporateAction[];
+}
+
 interface ProxyStrategy {
     name: string;
     fetch: (targetUrl: string) => Promise<string>;
@@ -55,12 +63,13 @@ const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 /**
  * Advanced Market Data Sanitization - Final Tier
  * Handles "Garbage Head" data, Zero-Drops, and extreme volatility spikes.
+ * Known splits are applied first so they are not mistaken for glitches.
  */
-const cleanData = (data: MarketDataPoint[]): MarketDataPoint[] => {
+const cleanData = (data: MarketDataPoint[], actions: CorporateAction[] = []): MarketDataPoint[] => {
     if (data.length < 10) return data;
 
-    // 1. Initial Sort and Basic Zero Removal
-    let sorted = [...data]
+    // 1. Initial Sort, Split Adjustment and Basic Zero Removal
+    let sorted = CorporateActions.adjustForSplits([...data], actions)
         .sort((a, b) => a.date.localeCompare(b.date))
         .filter(d => d.close > 0.001 && !isNaN(d.close));
 
@@ -163,7 +172,37 @@ const cleanData = (data: MarketDataPoint[]): MarketDataPoint[] => {
     return cleaned;
 };
 
-const fetchEODHD = async (ticker: string, range: string, apiKey?: string): Promise<MarketDataPoint[]> => {
+// Event endpoints are best-effort: a failure leaves the price history usable without income
+const fetchEODHDActions = async (formattedTicker: string, keyToUse: string, fromDate: string): Promise<CorporateAction[]> => {
+    const actions: CorporateAction[] = [];
+    try {
+        const res = await fetchWithTimeout(`${EODHD_DIV_BASE}${formattedTicker}?api_token=${keyToUse}&fmt=json&from=${fromDate}`, 10000);
+        const divs = res.ok ? await res.json() : [];
+        if (Array.isArray(divs)) {
+            divs.forEach((d: any) => {
+                const value = parseFloat(d.value);
+                if (d.date && value > 0) actions.push({ date: d.date, type: 'DIVIDEND', value });
+            });
+        }
+    } catch (e) {
+        console.warn(`[MarketData] EODHD dividends unavailable for ${formattedTicker}`);
+    }
+    try {
+        const res = await fetchWithTimeout(`${EODHD_SPLITS_BASE}${formattedTicker}?api_token=${keyToUse}&fmt=json&from=${fromDate}`, 10000);
+        const splits = res.ok ? await res.json() : [];
+        if (Array.isArray(splits)) {
+            splits.forEach((d: any) => {
+                const value = CorporateActions.parseSplitRatio(String(d.split || ''));
+                if (d.date && isFinite(value) && value > 0) actions.push({ date: d.date, type: 'SPLIT', value });
+            });
+        }
+    } catch (e) {
+        console.warn(`[MarketData] EODHD splits unavailable for ${formattedTicker}`);
+    }
+    return actions.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const fetchEODHD = async (ticker: string, range: string, apiKey?: string): Promise<HistoryWithActions> => {
     let formattedTicker = ticker.toUpperCase();
     if (!formattedTicker.includes('.') && !formattedTicker.startsWith('^')) {
         formattedTicker = `${formattedTicker}.US`;
@@ -189,7 +228,7 @@ const fetchEODHD = async (ticker: string, range: string, apiKey?: string): Promi
         if (!res.ok) throw new Error(`EODHD HTTP ${res.status}`);
         const data = await res.json();
         
-        if (!Array.isArray(data)) return [];
+        if (!Array.isArray(data)) return { data: [], actions: [] };
 
         const mapped = data.map((d: any) => ({
             date: d.date,
@@ -200,7 +239,9 @@ const fetchEODHD = async (ticker: string, range: string, apiKey?: string): Promi
             volume: parseInt(d.volume) || 0
         })).filter(d => d.close > 0);
 
-        return cleanData(mapped);
+        // EODHD closes are unadjusted, so its splits are applied here
+        const actions = await fetchEODHDActions(formattedTicker, keyToUse, fromDate);
+        return { data: CorporateActions.withAdjustedClose(cleanData(mapped, actions), actions), actions };
     } catch (error) {
         console.error("EODHD Fetch Error:", error);
         throw error;
@@ -209,6 +250,13 @@ const fetchEODHD = async (ticker: string, range: string, apiKey?: string): Promi
 
 export const MarketDataService = {
   async fetchHistory(ticker: string, range: string = 'max', interval: string = '1d', provider: string = 'yfinance', apiKey?: string): Promise<MarketDataPoint[]> {
+    return (await MarketDataService.fetchHistoryWithActions(ticker, range, interval, provider, apiKey)).data;
+  },
+
+  /**
+   * Split-adjusted OHLCV with a dividend-adjusted close, plus the dividend and split events behind it.
+   */
+  async fetchHistoryWithActions(ticker: string, range: string = 'max', interval: string = '1d', provider: string = 'yfinance', apiKey?: string): Promise<HistoryWithActions> {
     if (provider === 'eodhd') return await fetchEODHD(ticker, range, apiKey);
 
     const nowTimestamp = Math.floor(Date.now() / 1000);
@@ -223,7 +271,7 @@ export const MarketDataService = {
         p1 = Math.floor(past.getTime() / 1000);
     }
 
-    const targetUrl = `${YAHOO_BASE}${ticker}?interval=${interval}&period1=${p1}&period2=${nowTimestamp}`;
+    const targetUrl = `${YAHOO_BASE}${ticker}?interval=${interval}&period1=${p1}&period2=${nowTimestamp}&events=div%2Csplits`;
     
     for (const proxy of PROXIES) {
         try {
@@ -251,9 +299,20 @@ export const MarketDataService = {
                 }
             }
             
-            const cleaned = cleanData(rawData);
-            console.log(`[MarketData] Success via ${proxy.name}: ${cleaned.length} cleaned records`);
-            return cleaned;
+            // Yahoo prices and dividend amounts are already split-adjusted; splits are kept as a record
+            const actions: CorporateAction[] = [];
+            Object.values(result.events?.dividends || {}).forEach((d: any) => {
+                if (d?.date && d.amount > 0) actions.push({ date: new Date(d.date * 1000).toISOString().split('T')[0], type: 'DIVIDEND', value: Number(d.amount) });
+            });
+            Object.values(result.events?.splits || {}).forEach((d: any) => {
+                const value = d?.numerator > 0 && d?.denominator > 0 ? d.numerator / d.denominator : NaN;
+                if (d?.date && isFinite(value)) actions.push({ date: new Date(d.date * 1000).toISOString().split('T')[0], type: 'SPLIT', value });
+            });
+            actions.sort((a, b) => a.date.localeCompare(b.date));
+
+            const cleaned = CorporateActions.withAdjustedClose(cleanData(rawData), actions);
+            console.log(`[MarketData] Success via ${proxy.name}: ${cleaned.length} cleaned records, ${actions.length} events`);
+            return { data: cleaned, actions };
         } catch (e: any) {
             console.warn(`[MarketData] Proxy ${proxy.name} failed: ${e.message}`);
             await sleep(300);
@@ -0,0 +1,78 @@
+export interface PerformanceStats {
+    totalReturn: number; // %
+    cagr: number; // %
+    maxDD: number; // %, positive
+    volatility: number; // Annualized %
+    sharpe: number;
+    calmar: number; // CAGR / max drawdown
+}
+
+export type PerformanceObjective = 'CAGR' | 'Sharpe' | 'Calmar';
+
+const RISK_FREE_PCT = 5;
+
+const EMPTY_STATS: PerformanceStats = { totalReturn: 0, cagr: 0, maxDD: 0, volatility: 0, sharpe: 0, calmar: 0 };
+
+export const Metrics = {
+    /**
+     * Headline statistics of a daily value series, annualized over `sessionsPerYear`. Daily
+     * returns are clipped so a single bad print cannot dominate volatility.
+     */
+    summarize(vals: number[], sessionsPerYear = 252): PerformanceStats {
+        if (vals.length < 5) return { ...EMPTY_STATS };
+
+        const returns: number[] = [];
+        for (let i = 1; i < vals.length; i++) {
+            let r = (vals[i] / (vals[i - 1] || 1)) - 1;
+            if (r > 1) r = 1;
+            if (r < -0.9) r = -0.9;
+            if (isFinite(r)) returns.push(r);
+        }
+
+        const first = vals[0], last = vals[vals.length - 1];
+        const years = Math.max(0.01, vals.length / sessionsPerYear);
+
+        let cagr = (Math.pow(Math.abs(last / (first || 1)), 1 / years) - 1) * 100;
+        if (!isFinite(cagr) || cagr > 10000) cagr = 0;
+
+        const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+        const vol = returns.length > 1
+            ? Math.sqrt(returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (returns.length - 1) * sessionsPerYear) * 100
+            : 0;
+
+        let peak = -Infinity, mdd = 0;
+        vals.forEach(v => { if (v > peak) peak = v; const dd = (peak - v) / (peak || 1); if (dd > mdd) mdd = dd; });
+
+        return {
+            totalReturn: ((last - first) / (first || 1)) * 100,
+            cagr,
+            maxDD: mdd * 100,
+            volatility: vol,
+            sharpe: (vol > 1) ? (cagr - RISK_FREE_PCT) / vol : 0,
+            calmar: mdd > 0.001 ? cagr / (mdd * 100) : 0
+        };
+    },
+
+    /**
+     * Annualized standard deviation, in %, of the daily return difference between two value
+     * series of equal length (a portfolio and the reference it should follow).
+     */
+    trackingError(vals: number[], reference: number[], sessionsPerYear = 252): number {
+        const diffs: number[] = [];
+        for (let i = 1; i < Math.min(vals.length, reference.length); i++) {
+            const d = (vals[i] / (vals[i - 1] || 1)) - (reference[i] / (reference[i - 1] || 1));
+            if (isFinite(d)) diffs.push(d);
+        }
+        if (diffs.length < 2) return 0;
+        const mean = diffs.reduce((a, b) => a + b, 0) / diffs.length;
+        return Math.sqrt(diffs.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (diffs.length - 1) * sessionsPerYear) * 100;
+    },
+
+    score(stats: PerformanceStats, objective: PerformanceObjective): number {
+        switch (objective) {
+            case 'Sharpe': return stats.sharpe;
+            case 'Calmar': return stats.calmar;
+            default: return stats.cagr;
+        }
+    }
+};
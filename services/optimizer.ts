@@ -0,0 +1,223 @@
+import { Strategy, SymbolData, RebalanceFrequency } from "../types";
+import { SimResultPoint } from "./strategyEngine";
+import { EnginePool, EngineJob } from "./enginePool";
+import { RuleRegistry } from "./rules";
+import { Metrics, PerformanceObjective, PerformanceStats } from "./metrics";
+
+// Upper bound on simulations per optimization; larger grids must use random search
+export const MAX_CANDIDATES = 400;
+
+export interface ParamSweep {
+    ruleIndex: number; // Position in the strategy's rule list
+    key: string;
+    values: number[];
+}
+
+export interface OptimizerConfig {
+    search: 'Grid' | 'Random';
+    sampleCount: number; // Random search only
+    paramSweeps: ParamSweep[];
+    rebalanceFreqs: RebalanceFrequency[]; // Empty keeps the strategy's own frequency
+    executionDelays: number[]; // Empty keeps the strategy's own delay
+    inSampleDays: number; // Trading days
+    outOfSampleDays: number;
+    objective: PerformanceObjective;
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface OptimizerCandidate {
+    id: number;
+    label: string;
+    strategy: Strategy;
+}
+
+export interface WalkForwardWindow {
+    inSampleStart: string;
+    inSampleEnd: string;
+    outOfSampleStart: string;
+    outOfSampleEnd: string;
+    candidateId: number;
+    inSampleScore: number;
+    outOfSampleScore: number;
+}
+
+export interface CandidateRanking {
+    candidateId: number;
+    label: string;
+    timesSelected: number;
+    stats: PerformanceStats; // Over the combined out-of-sample span
+    score: number;
+}
+
+export interface OptimizerResult {
+    candidates: OptimizerCandidate[];
+    windows: WalkForwardWindow[];
+    ranking: CandidateRanking[];
+    stitched: { date: string; value: number; benchmarkValue: number }[];
+    stitchedStats: PerformanceStats;
+}
+
+type Dimension = { label: (v: number) => string; values: number[]; apply: (s: Strategy, v: number) => Strategy };
+
+const FREQS = Object.values(RebalanceFrequency);
+
+const dimensionsFor = (strategy: Strategy, config: OptimizerConfig): Dimension[] => {
+    const dims: Dimension[] = config.paramSweeps.filter(p => p.values.length > 0).map(p => {
+        const ruleId = RuleRegistry.forStrategy(strategy.rules)[p.ruleIndex]?.ruleId;
+        return {
+            values: p.values,
+            label: v => `${ruleId}#${p.ruleIndex + 1}.${p.key}=${v}`,
+            apply: (s, v) => ({
+                ...s,
+                rules: RuleRegistry.forStrategy(s.rules).map((r, idx) => idx === p.ruleIndex ? { ...r, params: { ...r.params, [p.key]: v } } : r)
+            })
+        };
+    });
+    if (config.rebalanceFreqs.length > 0) {
+        dims.push({
+            values: config.rebalanceFreqs.map(f => FREQS.indexOf(f)),
+            label: v => FREQS[v],
+            apply: (s, v) => ({ ...s, rebalanceFreq: FREQS[v] })
+        });
+    }
+    if (config.executionDelays.length > 0) {
+        dims.push({
+            values: config.executionDelays,
+            label: v => `delay ${v}d`,
+            apply: (s, v) => ({ ...s, executionDelay: v })
+        });
+    }
+    return dims;
+};
+
+// Decodes a flat grid index into one value per dimension (mixed radix)
+const candidateAt = (base: Strategy, dims: Dimension[], index: number, id: number): OptimizerCandidate => {
+    let strategy = { ...base };
+    const labels: string[] = [];
+    let rem = index;
+    dims.forEach(d => {
+        const v = d.values[rem % d.values.length];
+        rem = Math.floor(rem / d.values.length);
+        strategy = d.apply(strategy, v);
+        labels.push(d.label(v));
+    });
+    return { id, label: labels.join(', ') || 'Baseline', strategy };
+};
+
+const sliceStats = (series: SimResultPoint[], from: number, to: number, sessionsPerYear: number) => Metrics.summarize(series.slice(from, to + 1).map(p => p.value), sessionsPerYear);
+
+/**
+ * Picks the best in-sample candidate for each rolling window and chains its out-of-sample
+ * returns. Windows share their boundary day so the segments join without gaps.
+ */
+const walkForward = (strategy: Strategy, candidates: OptimizerCandidate[], runs: SimResultPoint[][], sessionsPerYear: number, config: OptimizerConfig): OptimizerResult => {
+    // All candidates share the same data, but align defensively on common dates
+    const dateSets = runs.map(r => new Set(r.map(p => p.date)));
+    const dates = runs[0].map(p => p.date).filter(d => dateSets.every(s => s.has(d)));
+    const aligned = runs.map(r => {
+        const byDate = new Map(r.map(p => [p.date, p]));
+        return dates.map(d => byDate.get(d)!);
+    });
+
+    const IS = Math.max(5, Math.floor(config.inSampleDays));
+    const OOS = Math.max(5, Math.floor(config.outOfSampleDays));
+    if (dates.length < IS + 5) throw new Error(`Need at least ${IS + 5} trading days; only ${dates.length} available.`);
+
+    const windows: WalkForwardWindow[] = [];
+    const selections = candidates.map(() => 0);
+    const stitched: OptimizerResult['stitched'] = [];
+    let value = strategy.initialCapital;
+    let bench = strategy.initialCapital;
+
+    for (let start = 0; start + IS < dates.length - 1; start += OOS) {
+        const isEnd = start + IS;
+        const oosEnd = Math.min(isEnd + OOS, dates.length - 1);
+
+        let best = 0, bestScore = -Infinity;
+        aligned.forEach((series, k) => {
+            const score = Metrics.score(sliceStats(series, start, isEnd, sessionsPerYear), config.objective);
+            if (score > bestScore) { bestScore = score; best = k; }
+        });
+        selections[best]++;
+
+        const chosen = aligned[best];
+        if (stitched.length === 0) stitched.push({ date: dates[isEnd], value, benchmarkValue: bench });
+        for (let d = isEnd + 1; d <= oosEnd; d++) {
+            value *= chosen[d].value / (chosen[d - 1].value || 1);
+            bench *= chosen[d].benchmarkValue / (chosen[d - 1].benchmarkValue || 1);
+            stitched.push({ date: dates[d], value, benchmarkValue: bench });
+        }
+
+        windows.push({
+            inSampleStart: dates[start],
+            inSampleEnd: dates[isEnd],
+            outOfSampleStart: dates[isEnd],
+            outOfSampleEnd: dates[oosEnd],
+            candidateId: candidates[best].id,
+            inSampleScore: bestScore,
+            outOfSampleScore: Metrics.score(sliceStats(chosen, isEnd, oosEnd, sessionsPerYear), config.objective)
+        });
+    }
+
+    const oosStart = IS;
+    const ranking: CandidateRanking[] = candidates.map((c, k) => {
+        const stats = sliceStats(aligned[k], oosStart, dates.length - 1, sessionsPerYear);
+        return { candidateId: c.id, label: c.label, timesSelected: selections[k], stats, score: Metrics.score(stats, config.objective) };
+    }).sort((a, b) => b.score - a.score);
+
+    return {
+        candidates,
+        windows,
+        ranking,
+        stitched,
+        stitchedStats: Metrics.summarize(stitched.map(p => p.value), sessionsPerYear)
+    };
+};
+
+export const Optimizer = {
+    // Inclusive numeric range, rounded to the step's precision to avoid float drift
+    rangeValues(from: number, to: number, step: number): number[] {
+        if (!(step > 0) || to < from) return [from];
+        const decimals = (String(step).split('.')[1] || '').length;
+        const values: number[] = [];
+        for (let v = from; v <= to + step / 1e6 && values.length < 1000; v += step) {
+            values.push(Number(v.toFixed(decimals)));
+        }
+        return values;
+    },
+
+    gridSize(strategy: Strategy, config: OptimizerConfig): number {
+        return dimensionsFor(strategy, config).reduce((a, d) => a * d.values.length, 1);
+    },
+
+    buildCandidates(strategy: Strategy, config: OptimizerConfig): OptimizerCandidate[] {
+        const dims = dimensionsFor(strategy, config);
+        const total = dims.reduce((a, d) => a * d.values.length, 1);
+        if (config.search === 'Grid') {
+            if (total > MAX_CANDIDATES) throw new Error(`Grid has ${total} combinations (max ${MAX_CANDIDATES}). Narrow it or use random search.`);
+            return Array.from({ length: total }, (_, i) => candidateAt(strategy, dims, i, i + 1));
+        }
+        const count = Math.min(total, Math.max(1, config.sampleCount), MAX_CANDIDATES);
+        const picked = new Set<number>();
+        while (picked.size < count) picked.add(Math.floor(Math.random() * total));
+        return Array.from(picked).map((idx, i) => candidateAt(strategy, dims, idx, i + 1));
+    },
+
+    /**
+     * Runs every candidate once over the full range on the engine pool, then walks rolling
+     * in-sample windows over the resulting curves: the best in-sample candidate trades the
+     * following out-of-sample window, and those segments are chained into one equity curve.
+     */
+    start(strategy: Strategy, symbols: SymbolData[], config: OptimizerConfig, onProgress?: (done: number, total: number) => void): EngineJob<OptimizerResult> {
+        const candidates = Optimizer.buildCandidates(strategy, config);
+        const batch = EnginePool.runBatch(
+            candidates.map(c => ({ strategy: c.strategy, symbols, startDate: config.startDate, endDate: config.endDate })),
+            onProgress
+        );
+        return {
+            promise: batch.promise.then(sims => walkForward(strategy, candidates, sims.map(s => s.series), sims[0].sessionsPerYear, config)),
+            cancel: batch.cancel
+        };
+    }
+};
@@ -0,0 +1,234 @@
+import { Rule, RuleParams, RuleParamSpec, SignalContext, StrategyRule } from "../types";
+import { VolEstimator, VOL_ESTIMATOR_OPTIONS } from "./indicators";
+
+export const DEFAULT_RULE_ID = 'rule_2';
+
+const isAboveMA = (ctx: SignalContext, period: number): boolean => {
+    const ma = ctx.getMA(period);
+    return !!ma && ctx.prevClose > ma;
+};
+
+const isMomentumPositive = (ctx: SignalContext, period: number): boolean => {
+    const mom = ctx.getMomentum(period);
+    return mom !== null && mom > 0;
+};
+
+/**
+ * Ratio of short-window to baseline-window volatility. Infinity when either window
+ * lacks history, so callers treat "unknown" as "not calm" without special-casing.
+ */
+const volExpansion = (ctx: SignalContext, shortPeriod: number, baselinePeriod: number, estimator: number): number => {
+    const short = ctx.getVolatility(shortPeriod, estimator);
+    const baseline = ctx.getVolatility(baselinePeriod, estimator);
+    return short !== null && baseline !== null && baseline > 0 ? short / baseline : Infinity;
+};
+
+const periodSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: 5, max: 500, step: 1 });
+const weightSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: 0, max: 100, step: 5 });
+const ratioSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: 1, max: 5, step: 0.05 });
+const estimatorSpec = (key: string, label: string): RuleParamSpec => ({ key, label, options: VOL_ESTIMATOR_OPTIONS });
+
+const TRIPLE_TREND_SCHEMA: RuleParamSpec[] = [
+    periodSpec('ma1', 'MA 1 Period'), weightSpec('w1', 'MA 1 Weight %'),
+    periodSpec('ma2', 'MA 2 Period'), weightSpec('w2', 'MA 2 Weight %'),
+    periodSpec('ma3', 'MA 3 Period'), weightSpec('w3', 'MA 3 Weight %')
+];
+
+const tripleTrendSignal = (ctx: SignalContext, p: RuleParams): number => {
+    let w = 0;
+    if (isAboveMA(ctx, p.ma1)) w += p.w1 / 100;
+    if (isAboveMA(ctx, p.ma2)) w += p.w2 / 100;
+    if (isAboveMA(ctx, p.ma3)) w += p.w3 / 100;
+    return w;
+};
+
+const volLevelSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: 1, max: 150, step: 1 });
+
+// Share of the three trend MAs the price is above: 1 is a full uptrend
+const trendLadder = (ctx: SignalContext, p: RuleParams): number =>
+    [p.ma1, p.ma2, p.ma3].filter(period => isAboveMA(ctx, period)).length / 3;
+
+/**
+ * Position of annualized vol on the calm / elevated / stressed ladder, from 0 (at or below calm)
+ * to 1 (at or above stressed), interpolated between levels. Unknown vol counts as stressed.
+ */
+const volLadder = (ctx: SignalContext, p: RuleParams): number => {
+    const vol = ctx.getVolatility(p.window, p.estimator);
+    if (vol === null) return 1;
+    const levels = [p.calm, p.elevated, p.stressed].map(l => l / 100);
+    if (vol <= levels[0]) return 0;
+    for (let j = 1; j < levels.length; j++) {
+        if (vol <= levels[j]) return (j - 1 + (vol - levels[j - 1]) / Math.max(1e-9, levels[j] - levels[j - 1])) / (levels.length - 1);
+    }
+    return 1;
+};
+
+const levelSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: -10, max: 100, step: 0.05 });
+const smoothingSpec = (key: string, label: string): RuleParamSpec => ({ key, label, min: 1, max: 60, step: 1 });
+
+// Input level averaged over `smoothing` days; 1 reads the last value
+const smoothedLevel = (ctx: SignalContext, key: string, smoothing: number): number | null => {
+    const series = ctx.input(key);
+    if (!series) return null;
+    return smoothing > 1 ? series.getMA(smoothing) : series.prevValue;
+};
+
+const BUILT_IN_RULES: Rule[] = [
+  {
+    id: 'rule_1',
+    name: 'Triple Trend Slow Response',
+    description: '50% weight to 50d MA, 25% weight to 75d MA, and 25% weight to 100d MA. Allocates to RiskOn if Price > MA, else RiskOff.',
+    params: { ma1: 50, ma2: 75, ma3: 100, w1: 50, w2: 25, w3: 25 },
+    paramSchema: TRIPLE_TREND_SCHEMA,
+    signal: tripleTrendSignal
+  },
+  {
+    id: 'rule_2',
+    name: 'Triple Trend Quick Response',
+    description: '25% weight to 25d MA, 50% weight to 50d MA, and 25% weight to 100d MA. Faster, more aggressive response to trend shifts.',
+    params: { ma1: 25, ma2: 50, ma3: 100, w1: 25, w2: 50, w3: 25 },
+    paramSchema: TRIPLE_TREND_SCHEMA,
+    signal: tripleTrendSignal
+  },
+  {
+    id: 'rule_3',
+    name: 'Macro-Vol Adaptive Trend (Alpha)',
+    description: '50% 200d MA (Macro), 30% 50d MA (Medium), and 20% Volatility Guard. Reduces exposure when volatility expands even if price is high.',
+    params: { maMacro: 200, maMedium: 50, wMacro: 50, wMedium: 30, wGuard: 20, guardShort: 20, guardBaseline: 126, guardExpansion: 1.25, guardEstimator: VolEstimator.CLOSE_TO_CLOSE },
+    paramSchema: [
+        periodSpec('maMacro', 'Macro MA Period'), weightSpec('wMacro', 'Macro Weight %'),
+        periodSpec('maMedium', 'Medium MA Period'), weightSpec('wMedium', 'Medium Weight %'),
+        periodSpec('guardShort', 'Guard Vol Window'), weightSpec('wGuard', 'Guard Weight %'),
+        periodSpec('guardBaseline', 'Guard Baseline Window'), ratioSpec('guardExpansion', 'Max Vol Expansion (x)'),
+        estimatorSpec('guardEstimator', 'Guard Vol Estimator')
+    ],
+    signal: (ctx, p) => {
+        let w = 0;
+        if (isAboveMA(ctx, p.maMacro)) w += p.wMacro / 100;
+        if (isAboveMA(ctx, p.maMedium)) w += p.wMedium / 100;
+        // Guard holds its weight only while short-term vol stays within its longer-run norm
+        if (volExpansion(ctx, p.guardShort, p.guardBaseline, p.guardEstimator) <= p.guardExpansion) w += p.wGuard / 100;
+        return w;
+    }
+  },
+  {
+    id: 'rule_4',
+    name: 'Multi-Timeframe Sentinel (Alpha+)',
+    description: '40% 200d MA, 30% 126d Momentum, 30% 63d Momentum. Includes a Volatility-Clamp that halves exposure if short-term risk spikes.',
+    params: { ma: 200, momSlow: 126, momFast: 63, wMA: 40, wMomSlow: 30, wMomFast: 30, clampShort: 10, clampBaseline: 126, clampSpike: 1.5, clampExposure: 50, clampEstimator: VolEstimator.CLOSE_TO_CLOSE },
+    paramSchema: [
+        periodSpec('ma', 'Trend MA Period'), weightSpec('wMA', 'Trend Weight %'),
+        periodSpec('momSlow', 'Slow Momentum Lookback'), weightSpec('wMomSlow', 'Slow Momentum Weight %'),
+        periodSpec('momFast', 'Fast Momentum Lookback'), weightSpec('wMomFast', 'Fast Momentum Weight %'),
+        periodSpec('clampShort', 'Clamp Vol Window'), periodSpec('clampBaseline', 'Clamp Baseline Window'),
+        ratioSpec('clampSpike', 'Spike Threshold (x)'), weightSpec('clampExposure', 'Exposure Kept on Spike %'),
+        estimatorSpec('clampEstimator', 'Clamp Vol Estimator')
+    ],
+    signal: (ctx, p) => {
+        let w = 0;
+        if (isAboveMA(ctx, p.ma)) w += p.wMA / 100;
+        if (isMomentumPositive(ctx, p.momSlow)) w += p.wMomSlow / 100;
+        if (isMomentumPositive(ctx, p.momFast)) w += p.wMomFast / 100;
+        const spike = volExpansion(ctx, p.clampShort, p.clampBaseline, p.clampEstimator);
+        if (isFinite(spike) && spike > p.clampSpike) w *= p.clampExposure / 100;
+        return w;
+    }
+  },
+  {
+    id: 'rule_5',
+    name: 'Trend Ladder Regimes',
+    description: 'Counts how many of the 50d, 100d and 200d MAs price is above. All three picks the first regime, none the last, with the steps in between spread over the middle regimes.',
+    params: { ma1: 50, ma2: 100, ma3: 200 },
+    paramSchema: [periodSpec('ma1', 'Fast MA Period'), periodSpec('ma2', 'Medium MA Period'), periodSpec('ma3', 'Slow MA Period')],
+    signal: trendLadder,
+    regimeSignal: (ctx, p, regimeCount) => (1 - trendLadder(ctx, p)) * (regimeCount - 1)
+  },
+  {
+    id: 'rule_6',
+    name: 'Volatility Regime Ladder',
+    description: 'Maps 20d annualized volatility onto calm (12%), elevated (20%) and stressed (30%) levels and spreads weight across the regimes in between. As a risk-on rule it stays in while vol is below the elevated level.',
+    params: { window: 20, calm: 12, elevated: 20, stressed: 30, estimator: VolEstimator.CLOSE_TO_CLOSE },
+    paramSchema: [
+        periodSpec('window', 'Vol Window'), estimatorSpec('estimator', 'Vol Estimator'),
+        volLevelSpec('calm', 'Calm Vol %'), volLevelSpec('elevated', 'Elevated Vol %'), volLevelSpec('stressed', 'Stressed Vol %')
+    ],
+    signal: (ctx, p) => volLadder(ctx, p) < 0.5 ? 1 : 0,
+    regimeSignal: (ctx, p, regimeCount) => volLadder(ctx, p) * (regimeCount - 1)
+  },
+  {
+    id: 'rule_7',
+    name: 'Volatility Index Filter',
+    description: 'Reads a volatility index (^VIX by default). Risk off while the index is above its 50d MA or above an absolute ceiling of 30.',
+    params: { ma: 50, ceiling: 30 },
+    paramSchema: [periodSpec('ma', 'Index MA Period'), volLevelSpec('ceiling', 'Index Ceiling')],
+    inputs: [{ key: 'index', label: 'Volatility Index', defaultTicker: '^VIX' }],
+    signal: (ctx, p) => {
+        const index = ctx.input('index');
+        const level = index ? index.prevValue : null;
+        const ma = index ? index.getMA(p.ma) : null;
+        // Without a reading the filter cannot confirm calm markets
+        if (level === null || ma === null) return 0;
+        return level <= ma && level <= p.ceiling ? 1 : 0;
+    }
+  },
+  {
+    id: 'rule_8',
+    name: 'Yield Curve Inversion',
+    description: 'Reads a 10y-2y yield spread series (T10Y2Y by default, in percentage points). Risk off while the 5d average spread is below 0, i.e. the curve is inverted.',
+    params: { threshold: 0, smoothing: 5 },
+    paramSchema: [levelSpec('threshold', 'Inversion Threshold'), smoothingSpec('smoothing', 'Smoothing (Days)')],
+    inputs: [{ key: 'spread', label: '10y-2y Spread', defaultTicker: 'T10Y2Y' }],
+    signal: (ctx, p) => {
+        const spread = smoothedLevel(ctx, 'spread', p.smoothing);
+        return spread !== null && spread >= p.threshold ? 1 : 0;
+    }
+  },
+  {
+    id: 'rule_9',
+    name: 'Cross-Asset Trend Confirmation',
+    description: 'Risk on while a second series (a breadth line, a sector or another market) is above its 200d MA. Pick the series under Inputs.',
+    params: { ma: 200 },
+    paramSchema: [periodSpec('ma', 'Confirmation MA Period')],
+    inputs: [{ key: 'series', label: 'Confirming Series' }],
+    signal: (ctx, p) => {
+        const series = ctx.input('series');
+        const level = series ? series.prevValue : null;
+        const ma = series ? series.getMA(p.ma) : null;
+        return level !== null && ma !== null && level > ma ? 1 : 0;
+    }
+  }
+];
+
+const registry = new Map<string, Rule>(BUILT_IN_RULES.map(r => [r.id, r]));
+
+export const RuleRegistry = {
+    list: (): Rule[] => Array.from(registry.values()),
+
+    get: (id: string): Rule | undefined => registry.get(id),
+
+    // Falls back to the default rule so legacy strategies with unknown ids keep running
+    resolve: (id?: string): Rule => (id && registry.get(id)) || registry.get(DEFAULT_RULE_ID)!,
+
+    // Rules a strategy actually runs: strategies saved without any get the default rule
+    forStrategy: (rules?: StrategyRule[]): StrategyRule[] => (rules && rules.length > 0 ? rules : [{ ruleId: DEFAULT_RULE_ID, weight: 100 }]),
+
+    // Merges strategy overrides onto the rule defaults, ignoring keys outside the schema
+    resolveParams: (rule: Rule, overrides?: RuleParams): RuleParams => {
+        const params = { ...rule.params };
+        if (!overrides) return params;
+        rule.paramSchema.forEach(spec => {
+            const v = overrides[spec.key];
+            if (typeof v !== 'number' || !isFinite(v)) return;
+            if (spec.options && !spec.options.some(o => o.value === v)) return;
+            let clamped = v;
+            if (spec.min !== undefined) clamped = Math.max(spec.min, clamped);
+            if (spec.max !== undefined) clamped = Math.min(spec.max, clamped);
+            params[spec.key] = clamped;
+        });
+        return params;
+    },
+
+    register: (rule: Rule) => {
+        registry.set(rule.id, rule);
+    }
+};
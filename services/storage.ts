@@ -1,5 +1,5 @@
 
-import { SymbolData, Strategy, BacktestResult, MarketDataPoint } from "../types";
+import { SymbolData, Strategy, BacktestResult, MarketDataPoint, CorporateAction } from "../types";
 import { INITIAL_SYMBOLS, INITIAL_STRATEGIES } from "../constants";
 
 const KEYS = {
@@ -15,6 +15,7 @@ const DB_NAME = 'TrendPilot_MarketData_Stable_v1';
 const DB_VERSION = 2; // Incremented for backup store
 const STORE_NAME = 'ohlcv_cache';
 const BACKUP_STORE_NAME = 'ohlcv_cache_backup';
+const ACTIONS_PREFIX = 'EVENTS:'; // Corporate actions share the OHLCV store, keyed next to their ticker
 
 let dbInstance: IDBDatabase | null = null;
 let dbInitializationPromise: Promise<IDBDatabase> | null = null;
@@ -238,6 +239,24 @@ export const StorageService = {
       }
   },
 
+  saveCorporateActions: async (ticker: string, actions: CorporateAction[]): Promise<boolean> => {
+      try {
+          await dbOp<void>(getActiveStore(), 'readwrite', store => store.put(actions, `${ACTIONS_PREFIX}${ticker}`));
+          return true;
+      } catch (e) {
+          return false;
+      }
+  },
+
+  getCorporateActions: async (ticker: string): Promise<CorporateAction[]> => {
+      try {
+          const data = await dbOp<CorporateAction[]>(getActiveStore(), 'readonly', store => store.get(`${ACTIONS_PREFIX}${ticker}`));
+          return data || [];
+      } catch (e) {
+          return [];
+      }
+  },
+
   clearMarketData: async () => {
       const db = await initDB();
       return new Promise((resolve, reject) => {
@@ -1,16 +1,66 @@
 
-import { Strategy, SymbolData, MarketDataPoint, PriceType, RebalanceFrequency } from "../types";
-import { StorageService } from "./storage";
+import { Strategy, StrategyComponent, SymbolData, MarketDataPoint, PriceType, SignalContext, InputSeries, Currency, DividendTreatment, DriftBandMode, RotationConfig, CalendarId, ExecutionModel } from "../types";
+import { EngineData } from "./engineData";
+import { RuleRegistry } from "./rules";
+import { buildIndicatorPipeline, buildLevelPipeline } from "./indicators";
+import { FxService } from "./fx";
+import { CorporateActions } from "./corporateActions";
+import { SymbolLists } from "./symbolLists";
+import { Calendars } from "./calendars";
+import { CostModels, CostBreakdown } from "./costs";
+import { TaxLots, TaxLedger, TaxYear } from "./taxLots";
+import { ExecutionModels } from "./execution";
 
 export interface SimTrade {
     date: string;
     ticker: string;
-    type: 'BUY' | 'SELL';
+    type: 'BUY' | 'SELL' | 'SHORT' | 'COVER';
     value: number;
     shares: number;
     price: number;
     riskOnPct?: number;
     riskOffPct?: number;
+    regime?: string; // Multi-regime strategies: the dominant regime when the trade executed
+    trigger?: RebalanceTrigger;
+    breach?: DriftBreach; // Drift-band trigger only: the holding furthest outside its band
+    cost?: number; // Commission, slippage and levies paid, in the base currency
+    costs?: CostBreakdown;
+    execution?: TradeExecution; // How the order was worked; `price` is the average over its fills
+}
+
+// An order too large for the ticker's traded volume: beyond the participation cap, or a full day's volume without one
+export interface LiquidityWarning {
+    date: string; // When the order started
+    ticker: string;
+    shares: number; // Order size
+    adv: number; // Average daily volume when it started
+    participationPct: number; // Order size as % of that volume
+    sessions: number; // Sessions worked until liquidity caught up with the order's schedule
+    unfilled: number; // Shares still behind schedule when the order finished or was replaced
+}
+
+export interface TradeFill {
+    date: string;
+    shares: number;
+    price: number;
+}
+
+export interface TradeExecution {
+    model: ExecutionModel;
+    sessions: number; // Sessions the order was scheduled over
+    fills: TradeFill[]; // Sessions it actually filled in; fewer than scheduled when replaced or cut short
+}
+
+export type StopTrigger = 'StopLoss' | 'TrailingStop' | 'TakeProfit' | 'DrawdownBreaker';
+
+export type RebalanceTrigger = 'Initial' | 'Calendar' | 'DriftBand' | 'SubStrategy' | StopTrigger | 'Reentry';
+
+export const STOP_TRIGGERS: StopTrigger[] = ['StopLoss', 'TrailingStop', 'TakeProfit', 'DrawdownBreaker'];
+
+export interface DriftBreach {
+    asset: string; // Ticker, or sub-strategy name in a meta book
+    targetPct: number;
+    actualPct: number;
 }
 
 export interface SimResultPoint {
@@ -20,62 +70,772 @@ export interface SimResultPoint {
     riskOn: number;
     riskOff: number;
     rebalanced: boolean;
+    ruleContributions: Record<string, number>; // Weighted risk-on points each rule added
+    exposures: Record<string, number>; // Signed weight of each held ticker in NAV
+    subStrategyContributions?: Record<string, number>; // Meta only: cumulative return points per child
+    dividends?: number; // Net dividend cash flow booked that day (negative when shorts pay)
+    interest?: number; // Cash interest booked that day (negative when borrowing)
+    volScale?: number; // Vol-targeting overlay only: multiplier applied to the basket weights
+    regimeWeights?: Record<string, number>; // Multi-regime strategies: % weight of each regime by id
+    afterTaxValue?: number; // Tax enabled only: NAV less the tax owed so far on the year's realized gains
+    taxPaid?: number; // Capital-gains tax settled from cash that day
+}
+
+export interface RotationPick {
+    ticker: string;
+    score: number; // Average lookback return, %
+    weight: number; // % of the risk-on basket
+}
+
+// Rotation strategies: the ranked list as adopted on a rebalance that changed the picks
+export interface RotationSnapshot {
+    date: string;
+    picks: RotationPick[];
+    riskOffPct: number; // % of the risk-on basket handed to the risk-off basket (empty or negative slots)
+    scores: Record<string, number>; // Every ranked member, %
+}
+
+export interface SubStrategySummary {
+    strategyId: string;
+    name: string;
+    targetWeight: number; // % of the meta book
+    finalWeight: number; // % of the meta book on the last day
+    contribution: number; // Cumulative return points added to the meta NAV
+}
+
+export interface RegimeSwitch {
+    date: string;
+    from: number;
+    to: number;
+    driverRuleId?: string; // Rule whose contribution moved the most
+    regime?: string; // Multi-regime strategies: dominant regime after the switch
+}
+
+export interface SimulationHooks {
+    onProgress?: (done: number, total: number) => void; // Simulated days, or sub-strategies for meta runs
 }
 
 export interface DetailedSimResult {
     series: SimResultPoint[];
     trades: SimTrade[];
-    regimeSwitches: { date: string, from: number, to: number }[];
+    regimeSwitches: RegimeSwitch[];
+    subStrategies?: SubStrategySummary[];
+    regimes?: { id: string; name: string }[]; // Multi-regime strategies, in basket order
+    rotations?: RotationSnapshot[];
+    taxYears?: TaxYear[]; // Tax enabled only: realized gains and tax per calendar year
+    liquidityWarnings?: LiquidityWarning[];
+    currency: Currency; // NAV, benchmark and trade values are all in this currency
+    sessionsPerYear: number; // On the simulation's calendar; annualizes returns and volatility
+}
+
+// Short components carry negative target weights; the engine holds them as negative quantities
+const signedAllocation = (c: StrategyComponent) => (c.direction === 'Short' ? -1 : 1) * (c.allocation / 100);
+
+/**
+ * Turns a rule's regime output into weights over `count` regimes. A number is a regime index,
+ * with any fraction split between the two neighbouring regimes; a vector is normalized.
+ */
+const regimeVector = (output: number | number[], count: number): number[] => {
+    const v = new Array(count).fill(0);
+    if (Array.isArray(output)) {
+        for (let k = 0; k < count; k++) v[k] = isFinite(output[k]) ? Math.max(0, output[k]) : 0;
+        const total = v.reduce((a, p) => a + p, 0);
+        if (total > 0) return v.map(p => p / total);
+        v[count - 1] = 1;
+        return v;
+    }
+    const idx = Math.max(0, Math.min(count - 1, isFinite(output) ? output : count - 1));
+    const lower = Math.floor(idx);
+    v[lower] = 1 - (idx - lower);
+    if (lower + 1 < count) v[lower + 1] += idx - lower;
+    return v;
+};
+
+// Risk-on score of regime weights: 1 when fully in the first regime, 0 when fully in the last
+const riskScore = (weights: number[]): number => weights.length < 2 ? weights[0] || 0 : weights.reduce((a, p, k) => a + p * (1 - k / (weights.length - 1)), 0);
+
+const regimeWeightsMoved = (curr: number[], prev: number[] | null): boolean => !prev || curr.some((p, k) => Math.abs(p - (prev[k] || 0)) > 0.01);
+
+// Leftover position value from floating-point rounding that should not show up as a trade leg
+const DUST_VALUE = 0.01;
+
+interface Portfolio {
+    cash: number;
+    holdings: Record<string, number>; // Signed quantities, negative when short
+}
+
+type TradeTags = Omit<SimTrade, 'ticker' | 'type' | 'value' | 'shares' | 'price'>;
+
+type PriceMap = Record<string, Map<string, MarketDataPoint>>;
+
+// Currency a stored series is quoted in: a symbol's native currency or a materialized strategy's base
+const seriesCurrency = (ticker: string, symbols: SymbolData[], fallback: Currency): Currency => {
+    if (ticker.startsWith('STRAT:')) {
+        const sub = EngineData.getStrategies().find(s => s.id === ticker.replace('STRAT:', ''));
+        return sub ? FxService.baseCurrency(sub, symbols) : fallback;
+    }
+    return symbols.find(s => s.ticker === ticker)?.defaultCCY || fallback;
+};
+
+const closePrice = (data: PriceMap, ticker: string, date: string): number => {
+    const p = data[ticker]?.get(date);
+    return (p && p.close > 0) ? p.close : 0;
+};
+
+/**
+ * Equal-weight index of several series, rebalanced daily and starting at 100, for signals read
+ * off a symbol list. Open/high/low carry the members' average distance from their close.
+ */
+const compositeBars = (data: PriceMap, tickers: string[], dates: string[]): (MarketDataPoint | undefined)[] => {
+    let level = 0;
+    return dates.map((d, i) => {
+        const bars = tickers.map(t => data[t]?.get(d)).filter((b): b is MarketDataPoint => !!b && b.close > 0);
+        if (bars.length === 0) return undefined;
+        if (level === 0) level = 100;
+        else {
+            const rets = tickers
+                .map(t => [closePrice(data, t, dates[i - 1]), closePrice(data, t, d)])
+                .filter(([prev, curr]) => prev > 0 && curr > 0)
+                .map(([prev, curr]) => curr / prev - 1);
+            if (rets.length > 0) level *= 1 + rets.reduce((a, r) => a + r, 0) / rets.length;
+        }
+        const relative = (field: 'open' | 'high' | 'low') => bars.reduce((a, b) => a + (b[field] || b.close) / b.close, 0) / bars.length;
+        return {
+            date: d,
+            open: level * relative('open'),
+            high: level * relative('high'),
+            low: level * relative('low'),
+            close: level,
+            volume: bars.reduce((a, b) => a + (b.volume || 0), 0)
+        };
+    });
+};
+
+// Dividend-adjusted close when the series carries one, so benchmarks can be total return
+const totalReturnPrice = (data: PriceMap, ticker: string, date: string): number => {
+    const p = data[ticker]?.get(date);
+    return (p && p.adjClose && p.adjClose > 0) ? p.adjClose : closePrice(data, ticker, date);
+};
+
+type DividendMap = Record<string, Map<string, number>>; // Ticker -> bar date -> cash per share
+
+const loadDividends = async (ticker: string, bars: MarketDataPoint[], from: Currency, to: Currency): Promise<Map<string, number>> => {
+    const actions = await EngineData.getCorporateActions(ticker);
+    if (actions.length === 0) return new Map();
+    return CorporateActions.dividendSchedule(bars, await FxService.convertActions(actions, from, to));
+};
+
+/**
+ * Books dividends going ex on `date`. Longs receive cash, or more shares at the close when
+ * reinvesting; shorts owe the dividend to the lender. Returns the net cash flow.
+ */
+const accrueDividends = (book: Portfolio, dividends: DividendMap, date: string, treatment: DividendTreatment, priceOf: (ticker: string) => number): number => {
+    let flow = 0;
+    Object.entries(book.holdings).forEach(([t, q]) => {
+        const dps = dividends[t]?.get(date);
+        if (!dps) return;
+        const amount = q * dps;
+        flow += amount;
+        const p = priceOf(t);
+        if (treatment === 'Reinvest' && q > 0 && p > 0) book.holdings[t] = q + amount / p;
+        else book.cash += amount;
+    });
+    return flow;
+};
+
+/**
+ * Return credited to positive cash on each simulation day (index 0 is always 0). A symbol source
+ * uses the symbol's own total return, in its native currency, forward-filled over missing bars.
+ */
+const loadCashYield = async (strategy: Strategy, symbols: SymbolData[], simDates: string[], sessionsPerYear: number): Promise<number[]> => {
+    const source = strategy.cashRateSource || 'None';
+    if (source === 'Fixed') {
+        const daily = (strategy.cashRatePct || 0) / 100 / sessionsPerYear;
+        return simDates.map((_, i) => i > 0 ? daily : 0);
+    }
+    if (source !== 'Symbol') return simDates.map(() => 0);
+
+    const ticker = symbols.find(s => s.id === strategy.cashRateSymbolId)?.ticker;
+    const data = ticker ? await EngineData.getMarketData(ticker) : null;
+    if (!data || data.length === 0) throw new Error(`Missing history for cash yield symbol ${ticker || strategy.cashRateSymbolId}`);
+    let j = 0;
+    let last = 0;
+    const levels = simDates.map(d => {
+        while (j < data.length && data[j].date <= d) {
+            const p = data[j].adjClose || data[j].close;
+            if (p > 0) last = p;
+            j++;
+        }
+        return last;
+    });
+    return levels.map((p, i) => (i > 0 && p > 0 && levels[i - 1] > 0) ? p / levels[i - 1] - 1 : 0);
+};
+
+// Credits the day's yield on positive cash or charges the borrow rate on negative cash
+const accrueCashInterest = (book: Portfolio, lendRate: number, borrowRate: number): number => {
+    const interest = book.cash * (book.cash >= 0 ? lendRate : borrowRate);
+    book.cash += interest;
+    return interest;
+};
+
+// Charges the day's borrow fee on every open short from cash
+const chargeBorrowFees = (book: Portfolio, feeRate: number, priceOf: (ticker: string) => number) => {
+    if (feeRate <= 0) return;
+    Object.entries(book.holdings).forEach(([t, q]) => {
+        if (q < 0) book.cash -= Math.abs(q) * priceOf(t) * feeRate;
+    });
+};
+
+const executionPrice = (data: PriceMap, ticker: string, date: string, preference: PriceType): number => {
+    const p = data[ticker]?.get(date);
+    if (!p) return closePrice(data, ticker, date);
+    if (preference === PriceType.OPEN) return p.open > 0 ? p.open : p.close;
+    if (preference === PriceType.AVG) return (p.high + p.low + p.close) / 3;
+    return p.close;
+};
+
+// Explicit calendar, else the benchmark exchange's; null steps through the union of the data's dates
+const strategyCalendar = (strategy: Strategy, symbols: SymbolData[]): CalendarId | null =>
+    strategy.calendar || Calendars.forExchange(symbols.find(s => s.id === strategy.benchmarkSymbolId)?.exchange);
+
+// Sessions a calendar-triggered rebalance falls on
+const rebalanceSchedule = (strategy: Strategy, dates: string[], calendar: CalendarId | null): Set<string> =>
+    Calendars.rebalanceDates(dates, strategy.rebalanceFreq, calendar, strategy.rebalanceAnchor, strategy.rebalanceAnchorOffset, strategy.rebalanceAnchorWeekday);
+
+/**
+ * Price lookup that carries each ticker's last close over sessions its own market was shut,
+ * so holdings keep their value through another exchange's holidays.
+ */
+const forwardFilled = (dates: string[], priceOf: (ticker: string, date: string) => number) => {
+    const index = new Map(dates.map((d, i) => [d, i]));
+    const filled: Record<string, Float64Array> = {};
+    return (ticker: string, date: string): number => {
+        const i = index.get(date);
+        if (i === undefined) return priceOf(ticker, date);
+        if (!filled[ticker]) {
+            let last = 0;
+            filled[ticker] = Float64Array.from(dates, d => {
+                const p = priceOf(ticker, d);
+                if (p > 0) last = p;
+                return last;
+            });
+        }
+        return filled[ticker][i];
+    };
+};
+
+// Lot size per ticker; strategy series (STRAT:) always trade fractionally
+const lotSizer = (symbols: SymbolData[]) => {
+    const lots = new Map(symbols.map(s => [s.ticker, s.lotSize && s.lotSize > 0 ? s.lotSize : 1]));
+    return (ticker: string): number => ticker.startsWith('STRAT:') ? 0 : lots.get(ticker) || 1;
+};
+
+/**
+ * Average daily volume in shares over the `lookback` sessions before a date (the day itself
+ * excluded, as with the indicators), taken over the sessions that printed volume; 0 without any.
+ */
+const averageVolume = (data: PriceMap, dates: string[], lookback: number) => {
+    const index = new Map(dates.map((d, i) => [d, i]));
+    const averages: Record<string, Float64Array> = {};
+    return (ticker: string, date: string): number => {
+        const i = index.get(date);
+        if (i === undefined) return 0;
+        if (!averages[ticker]) {
+            const volumes = dates.map(d => data[ticker]?.get(d)?.volume || 0);
+            const out = new Float64Array(dates.length);
+            let sum = 0, count = 0;
+            volumes.forEach((v, k) => {
+                out[k] = count > 0 ? sum / count : 0;
+                if (v > 0) { sum += v; count++; }
+                if (k >= lookback && volumes[k - lookback] > 0) { sum -= volumes[k - lookback]; count--; }
+            });
+            averages[ticker] = out;
+        }
+        return averages[ticker][i];
+    };
+};
+
+const yearOf = (date: string) => Number(date.slice(0, 4));
+
+/**
+ * Capital-gains bookkeeping at the start of a day: reinvested dividends open lots, and on the
+ * first session of a new year last year's tax is paid from cash. Returns the tax paid.
+ */
+const settleTaxes = (ledger: TaxLedger, strategy: Strategy, book: Portfolio, priceOf: (ticker: string) => number, date: string, prevDate: string): number => {
+    if (strategy.dividendTreatment === 'Reinvest') TaxLots.syncBook(ledger, strategy, book.holdings, priceOf, date);
+    if (yearOf(date) === yearOf(prevDate)) return 0;
+    const tax = TaxLots.settleYear(ledger, strategy, yearOf(prevDate), date);
+    book.cash -= tax;
+    return tax;
+};
+
+// Sessions a pending rebalance waits for a closed market it trades in to reopen
+const MAX_ORDER_WAIT = 5;
+
+/**
+ * The weight furthest outside the strategy's drift band, or null when every holding is inside it.
+ * Weights are fractions of NAV; a relative band is measured against the size of the target.
+ */
+const findDriftBreach = (actual: Record<string, number>, targets: Record<string, number>, strategy: Strategy, labelOf: (key: string) => string = k => k): DriftBreach | null => {
+    const band = Math.max(0, strategy.driftBandPct || 0);
+    const mode: DriftBandMode = strategy.driftBandMode || 'Absolute';
+    let worst: DriftBreach | null = null;
+    let worstExcess = 0;
+    Object.keys({ ...actual, ...targets }).forEach(k => {
+        const a = (actual[k] || 0) * 100;
+        const t = (targets[k] || 0) * 100;
+        const drift = mode === 'Relative'
+            ? (t !== 0 ? Math.abs(a - t) / Math.abs(t) * 100 : (Math.abs(a) > 0 ? Infinity : 0))
+            : Math.abs(a - t);
+        if (drift > band && drift - band > worstExcess) {
+            worstExcess = drift - band;
+            worst = { asset: labelOf(k), targetPct: Number(t.toFixed(2)), actualPct: Number(a.toFixed(2)) };
+        }
+    });
+    return worst;
+};
+
+// Close-to-close returns aligned to `dates`; days without a bar on either side return 0
+const dailyReturns = (data: PriceMap, ticker: string, dates: string[]): Float64Array => {
+    const out = new Float64Array(dates.length);
+    for (let i = 1; i < dates.length; i++) {
+        const prev = closePrice(data, ticker, dates[i - 1]);
+        const curr = closePrice(data, ticker, dates[i]);
+        if (prev > 0 && curr > 0) out[i] = curr / prev - 1;
+    }
+    return out;
+};
+
+/**
+ * Annualized volatility of a constant-weight portfolio over the `lookback` returns before `idx`,
+ * or null without enough history. Like the indicators, the current day is excluded.
+ */
+const portfolioVolatility = (returns: Record<string, Float64Array>, weights: Record<string, number>, idx: number, lookback: number, sessionsPerYear = 252): number | null => {
+    if (lookback < 2 || idx - lookback < 1) return null;
+    const legs = Object.entries(weights).filter(([t, w]) => w !== 0 && returns[t]);
+    let sum = 0, sumSq = 0;
+    for (let d = idx - lookback; d < idx; d++) {
+        let r = 0;
+        legs.forEach(([t, w]) => { r += w * returns[t][d]; });
+        sum += r;
+        sumSq += r * r;
+    }
+    const mean = sum / lookback;
+    const variance = Math.max(0, (sumSq - lookback * mean * mean) / (lookback - 1));
+    return Math.sqrt(variance * sessionsPerYear);
+};
+
+/**
+ * Average total return of each member over the rotation lookbacks, ending `skipDays` before the
+ * day at `idx` (which, like the indicators, is itself excluded). Members short of history are left out.
+ */
+const momentumScores = (data: PriceMap, tickers: string[], dates: string[], idx: number, config: RotationConfig): Record<string, number> => {
+    const lookbacks = (config.lookbacks || []).map(l => Math.floor(l)).filter(l => l > 0);
+    const windows = lookbacks.length > 0 ? lookbacks : [252];
+    const end = idx - 1 - Math.max(0, Math.floor(config.skipDays || 0));
+    // Members from other exchanges may miss a bar on the exact day, so take the last one before it
+    const priceAt = (t: string, k: number): number => {
+        for (let j = k; j >= 0 && j > k - 5; j--) {
+            const p = totalReturnPrice(data, t, dates[j]);
+            if (p > 0) return p;
+        }
+        return 0;
+    };
+    const scores: Record<string, number> = {};
+    tickers.forEach(t => {
+        const now = priceAt(t, end);
+        if (!(now > 0)) return;
+        let sum = 0;
+        for (const l of windows) {
+            const then = priceAt(t, end - l);
+            if (!(then > 0)) return;
+            sum += now / then - 1;
+        }
+        scores[t] = sum / windows.length;
+    });
+    return scores;
+};
+
+/**
+ * Holds the top N members, one slot each (equal) or sized by inverse volatility. Slots the list
+ * cannot fill, and with absolute momentum the picks scoring below zero, go to the risk-off basket.
+ */
+const selectRotation = (scores: Record<string, number>, returns: Record<string, Float64Array>, idx: number, config: RotationConfig): Omit<RotationSnapshot, 'date'> => {
+    const slots = Math.max(1, Math.floor(config.topN || 1));
+    const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]).slice(0, slots);
+    const vols = ranked.map(([t]) => config.weighting === 'InverseVol' ? portfolioVolatility(returns, { [t]: 1 }, idx, Math.max(2, Math.floor(config.volLookback || 63))) : null);
+    const inverse = vols.every(v => v && v > 0) ? vols.map(v => 1 / v!) : ranked.map(() => 1);
+    const inverseSum = inverse.reduce((a, b) => a + b, 0) || 1;
+    const filled = ranked.length / slots;
+
+    let riskOff = 1 - filled;
+    const picks: RotationPick[] = [];
+    ranked.forEach(([ticker, score], k) => {
+        const weight = filled * inverse[k] / inverseSum;
+        if (config.absoluteMomentum && score < 0) riskOff += weight;
+        else picks.push({ ticker, score: Number((score * 100).toFixed(2)), weight: Number((weight * 100).toFixed(2)) });
+    });
+    return {
+        picks,
+        riskOffPct: Number((riskOff * 100).toFixed(2)),
+        scores: Object.fromEntries(Object.entries(scores).map(([t, v]) => [t, Number((v * 100).toFixed(2))]))
+    };
+};
+
+/**
+ * First protective level crossed by today's NAV. Entry and peak are measured from the last move
+ * into risk on; the breaker uses the NAV high-water mark.
+ */
+const stopTriggered = (strategy: Strategy, nav: number, entryNav: number, peakSinceEntry: number, highWater: number): StopTrigger | null => {
+    const pct = (v?: number) => Math.max(0, v || 0) / 100;
+    if (pct(strategy.drawdownBreakerPct) > 0 && nav <= highWater * (1 - pct(strategy.drawdownBreakerPct))) return 'DrawdownBreaker';
+    if (pct(strategy.stopLossPct) > 0 && nav <= entryNav * (1 - pct(strategy.stopLossPct))) return 'StopLoss';
+    if (pct(strategy.trailingStopPct) > 0 && nav <= peakSinceEntry * (1 - pct(strategy.trailingStopPct))) return 'TrailingStop';
+    if (pct(strategy.takeProfitPct) > 0 && nav >= entryNav * (1 + pct(strategy.takeProfitPct))) return 'TakeProfit';
+    return null;
+};
+
+// Signed weight of each holding in NAV at the day's close
+const portfolioExposures = (book: Portfolio, nav: number, priceOf: (ticker: string) => number): Record<string, number> => {
+    const exposures: Record<string, number> = {};
+    if (nav <= 0) return exposures;
+    Object.entries(book.holdings).forEach(([t, q]) => {
+        const value = q * priceOf(t);
+        if (Math.abs(value) > DUST_VALUE) exposures[t] = value / nav;
+    });
+    return exposures;
+};
+
+/**
+ * Trades the portfolio toward `targetWeights` of `nav` at the supplied prices. Sells and short
+ * sales run first so their proceeds can fund purchases. Purchases may borrow down to `cashFloor`, by
+ * default whatever leverage the target weights themselves carry. Returns the trades and the NAV net of costs.
+ */
+const rebalancePortfolio = (
+    book: Portfolio,
+    targetWeights: Record<string, number>,
+    nav: number,
+    strategy: Strategy,
+    priceOf: (ticker: string) => number,
+    lotOf: (ticker: string) => number,
+    advOf: (ticker: string) => number,
+    tags: TradeTags,
+    cashFloor = Math.min(0, nav * (1 - Object.values(targetWeights).reduce((a, w) => a + w, 0)))
+): { trades: SimTrade[]; nav: number } => {
+    const trades: SimTrade[] = [];
+    const minTrade = Math.max(1, strategy.minTradeValue || 0);
+    // Whole-lot orders round to the ticker's lot size; whatever cannot be placed stays in cash
+    const roundValue = (t: string, value: number, price: number, down: boolean): number => {
+        const lot = lotOf(t);
+        if (strategy.fractionalShares !== false || lot <= 0) return value;
+        const lots = value / (price * lot);
+        return (down ? Math.floor(lots + 1e-9) : Math.round(lots)) * lot * price;
+    };
+    const recordTrade = (ticker: string, type: SimTrade['type'], value: number, price: number, orderValue: number, costs: CostBreakdown, cost: number) => {
+        const share = value / orderValue;
+        trades.push({ ...tags, ticker, type, value, shares: value / price, price, cost: cost * share, costs: CostModels.scale(costs, share) });
+    };
+    const sellOrder = Array.from(new Set([...Object.keys(book.holdings), ...Object.keys(targetWeights)]));
+    const buyOrder = Array.from(new Set([...Object.keys(targetWeights), ...Object.keys(book.holdings)]));
+
+    sellOrder.forEach(t => {
+        const price = priceOf(t);
+        if (price <= 0) return;
+        const held = book.holdings[t] || 0;
+        const targetVal = (targetWeights[t] || 0) * nav;
+        const currentVal = held * price;
+        // Closing a position sells all of it, odd units included and however small
+        const closing = targetVal === 0;
+        const sellVal = closing ? currentVal : roundValue(t, currentVal - targetVal, price, false);
+        if (closing ? currentVal > DUST_VALUE : currentVal > targetVal + 1 && sellVal > minTrade) {
+            const { total: cost, breakdown } = CostModels.orderCost(strategy, 'SELL', sellVal, sellVal / price, advOf(t));
+            book.holdings[t] = held - sellVal / price;
+            book.cash += sellVal - cost;
+            nav -= cost;
+            // An order that crosses zero closes the long leg before opening the short
+            const closingVal = Math.min(Math.max(held, 0) * price, sellVal);
+            if (closingVal > DUST_VALUE) recordTrade(t, 'SELL', closingVal, price, sellVal, breakdown, cost);
+            if (sellVal - closingVal > DUST_VALUE) recordTrade(t, 'SHORT', sellVal - closingVal, price, sellVal, breakdown, cost);
+        }
+    });
+
+    buyOrder.forEach(t => {
+        const price = priceOf(t);
+        if (price <= 0) return;
+        const held = book.holdings[t] || 0;
+        const targetVal = (targetWeights[t] || 0) * nav;
+        const currentVal = held * price;
+        // Covering a short entirely is exempt from rounding and the minimum, like closing a long
+        const closing = targetVal === 0;
+        if (closing ? currentVal < -DUST_VALUE : targetVal > currentVal + 1) {
+            let order = CostModels.fitOrder(strategy, 'BUY', closing ? -currentVal : roundValue(t, targetVal - currentVal, price, false), price, book.cash - cashFloor, advOf(t));
+            // A cover the cash cannot fund in full is an ordinary partial order, rounded to whole lots
+            const covered = closing && order.value >= -currentVal;
+            if (strategy.fractionalShares === false && !covered) {
+                const value = roundValue(t, order.value, price, true);
+                order = { value, cost: CostModels.orderCost(strategy, 'BUY', value, value / price, advOf(t)) };
+            }
+            const buyVal = order.value;
+            if (covered ? buyVal > DUST_VALUE : buyVal > minTrade) {
+                const cost = order.cost.total;
+                book.holdings[t] = held + buyVal / price;
+                book.cash -= (buyVal + cost);
+                nav -= cost;
+                const closingVal = Math.min(Math.max(-held, 0) * price, buyVal);
+                if (closingVal > DUST_VALUE) recordTrade(t, 'COVER', closingVal, price, buyVal, order.cost.breakdown, cost);
+                if (buyVal - closingVal > DUST_VALUE) recordTrade(t, 'BUY', buyVal - closingVal, price, buyVal, order.cost.breakdown, cost);
+            }
+        }
+    });
+
+    return { trades, nav };
+};
+
+// Cash plus holdings marked at `priceOf`
+const markBook = (book: Portfolio, priceOf: (ticker: string) => number): number =>
+    Object.entries(book.holdings).reduce((a, [t, q]) => a + q * priceOf(t), book.cash);
+
+// A rebalance order being filled over one or more sessions
+interface WorkingOrder {
+    model: ExecutionModel;
+    sessions: number; // Scheduled; a participation cap can keep the order working longer
+    session: number; // Sessions worked so far
+    weights: Record<string, number> | null; // Target weights for a single uncapped session; null fills by quantity
+    from: Record<string, number>; // Quantities when the order started
+    to: Record<string, number>; // Quantities it finishes at
+    leverage: number; // Sum of the target weights; above 1 is borrowing the strategy asked for
+    due: Record<string, number>; // Share of each ticker's order due by the last session worked
+    adv: Record<string, number>; // Average daily volume when the order started
+    tags: TradeTags;
+    legs: Map<string, SimTrade>; // One trade per ticker and side, collecting its fills
+    warnings: Map<string, LiquidityWarning>;
 }
 
+/**
+ * Opens an order toward `targetWeights` of `nav`. Target quantities are fixed at today's prices;
+ * multi-session orders slice them session by session as each one's volume comes in.
+ */
+const startOrder = (
+    book: Portfolio,
+    targetWeights: Record<string, number>,
+    nav: number,
+    strategy: Strategy,
+    priceOf: (ticker: string) => number,
+    sessions: number,
+    advOf: (ticker: string) => number,
+    tags: TradeTags
+): WorkingOrder => {
+    const byQuantity = sessions > 1 || (strategy.maxParticipationPct || 0) > 0;
+    const order: WorkingOrder = {
+        model: strategy.executionModel || 'SameBar', sessions, session: 0, weights: byQuantity ? null : targetWeights,
+        from: {}, to: {}, leverage: Object.values(targetWeights).reduce((a, w) => a + w, 0), due: {}, adv: {}, tags, legs: new Map(), warnings: new Map()
+    };
+    Object.keys({ ...targetWeights, ...book.holdings }).forEach(t => {
+        const price = priceOf(t);
+        order.from[t] = book.holdings[t] || 0;
+        order.to[t] = price > 0 ? (targetWeights[t] || 0) * nav / price : order.from[t];
+        order.due[t] = 0;
+        order.adv[t] = advOf(t);
+    });
+    return order;
+};
+
+/**
+ * Fills the order's next session, each ticker capped at its share of average daily volume; a
+ * capped remainder carries to the following sessions. Purchases spend only what the order's sales
+ * and cash on hand have raised, plus any borrowing its targets call for, so sides held back by
+ * the cap or filling out of step never lever the book. Fills fold into the order's trade for
+ * that ticker and side. Returns the trades and liquidity warnings opened today (both updated
+ * in place later), the NAV net of costs, and whether the cap left anything behind.
+ */
+const workOrder = (
+    order: WorkingOrder,
+    book: Portfolio,
+    nav: number,
+    strategy: Strategy,
+    priceOf: (ticker: string) => number,
+    lotOf: (ticker: string) => number,
+    advOf: (ticker: string) => number,
+    volumeOf: (ticker: string) => number,
+    date: string
+): { trades: SimTrade[]; warnings: LiquidityWarning[]; nav: number; remainder: boolean } => {
+    const k = order.session++;
+    const cap = (strategy.maxParticipationPct || 0) / 100;
+    const raised: LiquidityWarning[] = [];
+    const warn = (t: string) => {
+        if (order.warnings.has(t)) return;
+        const shares = Math.abs(order.to[t] - order.from[t]);
+        const warning = { date: order.tags.date, ticker: t, shares, adv: order.adv[t], participationPct: shares / order.adv[t] * 100, sessions: 0, unfilled: shares };
+        order.warnings.set(t, warning);
+        raised.push(warning);
+    };
+    const capped = new Set<string>();
+    let weights = order.weights;
+    if (!weights) {
+        weights = {};
+        for (const t of Object.keys(order.to)) {
+            const held = book.holdings[t] || 0;
+            order.due[t] += (1 - order.due[t]) * ExecutionModels.sliceShare(strategy, order.sessions - k, volumeOf(t), advOf(t));
+            let quantity = order.from[t] + (order.to[t] - order.from[t]) * order.due[t];
+            const limit = cap * order.adv[t];
+            if (limit > 0 && Math.abs(quantity - held) > limit) {
+                quantity = held + Math.sign(quantity - held) * limit;
+                capped.add(t);
+                warn(t);
+            }
+            weights[t] = nav > 0 ? quantity * priceOf(t) / nav : 0;
+        }
+    }
+    // Without a cap, orders beyond a full day's volume are still flagged
+    if (k === 0 && cap <= 0) Object.keys(order.to).forEach(t => { if (order.adv[t] > 0 && Math.abs(order.to[t] - order.from[t]) > order.adv[t]) warn(t); });
+
+    const executed = rebalancePortfolio(book, weights, nav, strategy, priceOf, lotOf, advOf, order.tags, Math.min(0, nav * (1 - order.leverage)));
+    const opened: SimTrade[] = [];
+    executed.trades.forEach(t => {
+        const fill: TradeFill = { date, shares: t.shares, price: t.price };
+        const leg = order.legs.get(`${t.ticker}|${t.type}`);
+        if (!leg) {
+            const trade = { ...t, execution: { model: order.model, sessions: order.sessions, fills: [fill] } };
+            order.legs.set(`${t.ticker}|${t.type}`, trade);
+            opened.push(trade);
+            return;
+        }
+        leg.value += t.value;
+        leg.shares += t.shares;
+        leg.price = leg.value / leg.shares;
+        leg.cost = (leg.cost || 0) + (t.cost || 0);
+        leg.costs = CostModels.add(leg.costs || {}, t.costs || {});
+        leg.execution!.fills.push(fill);
+    });
+    order.warnings.forEach((w, t) => {
+        if (w.unfilled <= 0) return;
+        w.sessions = order.session;
+        w.unfilled = capped.has(t) ? Math.abs(order.to[t] - (book.holdings[t] || 0)) : 0;
+    });
+    return { trades: opened, warnings: raised, nav: executed.nav, remainder: capped.size > 0 };
+};
+
 export const StrategyEngine = {
     async runSimulation(
         strategy: Strategy,
         symbols: SymbolData[],
         startDate?: string,
-        endDate?: string
+        endDate?: string,
+        lineage: string[] = [], // Ids of the meta strategies above this run, for cycle detection
+        hooks: SimulationHooks = {}
     ): Promise<DetailedSimResult> {
+        if (strategy.type === 'Meta') return this.runMetaSimulation(strategy, symbols, startDate, endDate, lineage, hooks);
+
         const benchmarkTicker = symbols.find(s => s.id === strategy.benchmarkSymbolId)?.ticker || 'SPY';
+        const baseCurrency = FxService.baseCurrency(strategy, symbols);
         
         const resolveTicker = (id: string) => {
             if (id.startsWith('STRAT:')) return id;
             return symbols.find(s => s.id === id)?.ticker || '';
         };
 
-        const riskOnTickers = strategy.riskOnComponents.map(c => resolveTicker(c.symbolId));
-        const riskOffTickers = strategy.riskOffComponents.map(c => resolveTicker(c.symbolId));
-        const allTickers = Array.from(new Set([benchmarkTicker, ...riskOnTickers, ...riskOffTickers])).filter(t => t);
+        // Rotation strategies rebuild the risk-on basket from the strongest members of a list
+        const rotation = strategy.type === 'Rotation' ? strategy.rotation : undefined;
+        const rotationList = rotation ? symbols.find(s => s.id === rotation.listId && s.isList) : undefined;
+        const rotationIds = rotationList ? SymbolLists.members(rotationList, symbols).map(m => m.id) : [];
+        const rotationTickers = rotationIds.map(resolveTicker).filter(t => t);
+        if (strategy.type === 'Rotation' && rotationTickers.length === 0) {
+            throw new Error(rotationList ? `Rotation list ${rotationList.ticker} has no members.` : 'Rotation strategy needs a symbol list.');
+        }
+
+        // The risk-on/off pair is the two-regime case: regime 0 risk on, the last regime risk off.
+        // A list component stands for its members.
+        const regimes = !rotation && (strategy.regimes?.length || 0) >= 2 ? strategy.regimes! : null;
+        const expand = (components: StrategyComponent[]) => SymbolLists.expandComponents(components, symbols);
+        const riskOffBasket = expand(strategy.riskOffComponents);
+        const baskets = regimes ? regimes.map(r => expand(r.components)) : [rotation ? [] : expand(strategy.riskOnComponents), riskOffBasket];
+        const regimeCount = baskets.length;
+        const basketTickers = baskets.map(b => b.map(c => resolveTicker(c.symbolId)));
+        const riskOnTickers = rotation ? rotationTickers : basketTickers[0];
+        // A list signal reads an equal-weight composite of its members
+        const signalSymbol = symbols.find(s => s.id === strategy.signalSymbolId);
+        const signalTickers = !strategy.signalSymbolId ? (rotation ? rotationTickers : [riskOnTickers[0]])
+            : signalSymbol?.isList ? SymbolLists.members(signalSymbol, symbols).map(m => m.ticker).filter(t => t)
+            : [resolveTicker(strategy.signalSymbolId)];
+        if (strategy.signalSymbolId && !signalTickers[0]) throw new Error(`Signal source ${signalSymbol?.ticker || strategy.signalSymbolId} has no members.`);
+        const tradedTickers = Array.from(new Set([benchmarkTicker, ...basketTickers.flat(), ...rotationTickers, ...signalTickers])).filter(t => t);
+
+        // Rotation rules are an optional timing filter, so an empty list does not fall back to the default rule
+        const rules = rotation ? strategy.rules || [] : RuleRegistry.forStrategy(strategy.rules);
+        // Rules all left at weight 0 count equally instead of holding the book risk off for the whole run
+        const ruleEntries = (rules.some(r => r.weight > 0) ? rules.filter(r => r.weight > 0) : rules.map(r => ({ ...r, weight: 1 })))
+            .map((r, idx, list) => {
+                const rule = RuleRegistry.resolve(r.ruleId);
+                // Same rule used twice (e.g. with different periods) gets a positional key
+                const dupes = list.slice(0, idx).filter(o => RuleRegistry.resolve(o.ruleId).id === rule.id).length;
+                const key = dupes > 0 ? `${rule.id}#${dupes + 1}` : rule.id;
+                // Cross-asset inputs read the symbol the strategy picked, else the rule's default ticker
+                const inputs: Record<string, string> = {};
+                (rule.inputs || []).forEach(spec => {
+                    const ticker = r.inputs?.[spec.key] ? resolveTicker(r.inputs[spec.key]) : spec.defaultTicker;
+                    if (!ticker) throw new Error(`${rule.name} needs a symbol for its ${spec.label} input.`);
+                    inputs[spec.key] = ticker;
+                });
+                return { key, rule, weight: r.weight, params: RuleRegistry.resolveParams(rule, r.params), inputs };
+            });
+        // Input series are loaded with the rest but stay off the trading calendar
+        const inputTickers = Array.from(new Set(ruleEntries.flatMap(e => Object.values(e.inputs))));
+        const allTickers = Array.from(new Set([...tradedTickers, ...inputTickers]));
 
         const marketDataMap: Record<string, Map<string, MarketDataPoint>> = {};
+        const dividendTreatment: DividendTreatment = strategy.dividendTreatment || 'None';
+        const dividendMap: DividendMap = {};
         let datesSet = new Set<string>();
+        const calendar = strategyCalendar(strategy, symbols);
+        const sessionsPerYear = Calendars.sessionsPerYear(calendar);
+        const calendarPrints = new Set<string>(); // Bars from the calendar's own exchange, for data-defined holidays
+        const inputData: Record<string, Map<string, MarketDataPoint>> = {};
 
         // 1. Data Loading & Sub-Strategy Materialization
         for (const t of allTickers) {
-            let data: MarketDataPoint[] | null = await StorageService.getMarketData(t);
+            let data: MarketDataPoint[] | null = await EngineData.getMarketData(t);
             if (!data && t.startsWith('STRAT:')) {
                 const subId = t.replace('STRAT:', '');
-                const subStrat = StorageService.getStrategies().find(s => s.id === subId);
+                const subStrat = EngineData.getStrategies().find(s => s.id === subId);
+                if (subStrat && (subStrat.id === strategy.id || lineage.includes(subStrat.id))) {
+                    throw new Error(`Circular strategy reference via ${subStrat.name}`);
+                }
                 if (subStrat) {
-                    const subSim = await this.runSimulation(subStrat, symbols);
+                    const subSim = await this.runSimulation(subStrat, symbols, undefined, undefined, [...lineage, strategy.id]);
                     data = subSim.series.map(p => ({
                         date: p.date, open: p.value, high: p.value, low: p.value, close: p.value, volume: 0
                     }));
-                    await StorageService.saveMarketData(t, data);
+                    await EngineData.saveMarketData(t, data);
                 }
             }
 
             if (!data || data.length === 0) throw new Error(`Missing history for ${t}`);
+            // Inputs are levels, not prices, so they are read in their own units without FX conversion
+            if (inputTickers.includes(t)) inputData[t] = new Map(data.map(d => [d.date, d]));
+            if (!tradedTickers.includes(t)) continue;
+            const ccy = seriesCurrency(t, symbols, baseCurrency);
+            data = await FxService.convertSeries(data, ccy, baseCurrency);
+            if (dividendTreatment !== 'None' && !t.startsWith('STRAT:')) {
+                dividendMap[t] = await loadDividends(t, data, ccy, baseCurrency);
+            }
             const map = new Map<string, MarketDataPoint>();
             data.forEach(d => { map.set(d.date, d); datesSet.add(d.date); });
             marketDataMap[t] = map;
+            if (calendar && Calendars.forExchange(symbols.find(s => s.ticker === t)?.exchange) === calendar) {
+                data.forEach(d => calendarPrints.add(d.date));
+            }
         }
 
-        const sortedDates = Array.from(datesSet).sort();
+        // Simulation days follow the strategy's calendar rather than every date any series has
+        const unionDates = Array.from(datesSet).sort();
+        const sortedDates = calendar && unionDates.length > 0
+            ? Calendars.sessions(calendar, unionDates[0], unionDates[unionDates.length - 1], calendarPrints)
+            : unionDates;
         
         // 2. Range Alignment
         let firstCommonIdx = 0;
         for (let i = 0; i < sortedDates.length; i++) {
-            if (allTickers.every(t => marketDataMap[t].has(sortedDates[i]))) {
+            if (tradedTickers.every(t => marketDataMap[t].has(sortedDates[i]))) {
                 firstCommonIdx = i;
                 break;
             }
@@ -90,220 +850,536 @@ export const StrategyEngine = {
         if (simDates.length < 5) throw new Error("Simulation range is too narrow for analysis.");
 
         // 3. Helpers
-        const getSafePrice = (ticker: string, date: string): number => {
-            const p = marketDataMap[ticker]?.get(date);
-            return (p && p.close > 0) ? p.close : 0;
-        };
-
-        const getExecutionPrice = (t: string, d: string): number => {
-            const p = marketDataMap[t]?.get(d);
-            if (!p) return getSafePrice(t, d);
-            if (strategy.pricePreference === PriceType.OPEN) return p.open > 0 ? p.open : p.close;
-            if (strategy.pricePreference === PriceType.AVG) return (p.high + p.low + p.close) / 3;
-            return p.close;
-        };
-
-        const primaryTicker = riskOnTickers[0];
-        const getMA = (period: number, date: string) => {
-            const idx = sortedDates.indexOf(date);
-            if (idx === -1) return null;
-            
-            const actualLookback = Math.min(idx, period);
-            if (actualLookback < 5) return null; 
+        const getSafePrice = forwardFilled(sortedDates, (t, d) => closePrice(marketDataMap, t, d));
+        const getExecutionPrice = (t: string, d: string): number => executionPrice(marketDataMap, t, d, ExecutionModels.priceType(strategy));
+        const lotOf = lotSizer(symbols);
+        const advOf = averageVolume(marketDataMap, sortedDates, Math.max(1, Math.floor(strategy.advLookback || 20)));
 
-            let sum = 0, count = 0;
-            for (let i = 1; i <= actualLookback; i++) {
-                const p = getSafePrice(primaryTicker, sortedDates[idx - i]);
-                if (p > 0) { sum += p; count++; }
-            }
-            return count > 0 ? sum / count : null;
-        };
-
-        const getMomentum = (period: number, date: string): number | null => {
-            const idx = sortedDates.indexOf(date);
-            if (idx === -1) return null;
-            const lookback = Math.min(idx, period);
-            if (lookback < 5) return null;
-
-            const pNow = getSafePrice(primaryTicker, sortedDates[idx - 1]);
-            const pThen = getSafePrice(primaryTicker, sortedDates[idx - 1 - lookback]);
-            return (pNow > 0 && pThen > 0) ? (pNow / pThen) - 1 : null;
-        };
-
-        const isRebalanceDay = (date: string, index: number, freq: RebalanceFrequency): boolean => {
-            if (index === 0) return true;
-            const curr = new Date(date);
-            const prev = new Date(simDates[index - 1]);
-
-            switch(freq) {
-                case RebalanceFrequency.DAILY: return true;
-                case RebalanceFrequency.WEEKLY: return curr.getDay() < prev.getDay();
-                case RebalanceFrequency.BIWEEKLY: {
-                    const epoch = new Date('1970-01-04'); // A Sunday
-                    const diff = curr.getTime() - epoch.getTime();
-                    const weekIdx = Math.floor(diff / (7 * 24 * 3600 * 1000));
-                    const prevWeekIdx = Math.floor((prev.getTime() - epoch.getTime()) / (7 * 24 * 3600 * 1000));
-                    return (weekIdx !== prevWeekIdx) && (weekIdx % 2 === 0);
-                }
-                case RebalanceFrequency.MONTHLY: return curr.getMonth() !== prev.getMonth();
-                case RebalanceFrequency.BIMONTHLY: return curr.getMonth() !== prev.getMonth() && (curr.getMonth() % 2 === 0);
-                case RebalanceFrequency.QUARTERLY: return Math.floor(curr.getMonth() / 3) !== Math.floor(prev.getMonth() / 3);
-                case RebalanceFrequency.SEMIANNUALLY: return Math.floor(curr.getMonth() / 6) !== Math.floor(prev.getMonth() / 6);
-                case RebalanceFrequency.ANNUALLY: return curr.getFullYear() !== prev.getFullYear();
-                default: return false;
-            }
+        const dateIndex = new Map(sortedDates.map((d, i) => [d, i]));
+        const signalBars = signalTickers.length === 1
+            ? sortedDates.map(d => marketDataMap[signalTickers[0]]?.get(d))
+            : compositeBars(marketDataMap, signalTickers, sortedDates);
+        const indicators = buildIndicatorPipeline(signalBars, sessionsPerYear);
+        let lastSignalClose = 0;
+        const signalCloses = signalBars.map(b => lastSignalClose = b && b.close > 0 ? b.close : lastSignalClose);
+        const getMA = (period: number, date: string) => indicators.ma(dateIndex.get(date)!, period);
+        const getMomentum = (period: number, date: string) => indicators.momentum(dateIndex.get(date)!, period);
+        const getVolatility = (period: number, date: string, estimator?: number) => indicators.volatility(dateIndex.get(date)!, period, estimator);
+        const getATR = (period: number, date: string) => indicators.atr(dateIndex.get(date)!, period);
+        const inputPipelines = Object.fromEntries(inputTickers.map(t => [t, buildLevelPipeline(sortedDates.map(d => inputData[t].get(d)?.close))]));
+        const inputSeries = (ticker: string, date: string): InputSeries => {
+            const idx = dateIndex.get(date)!;
+            const pipeline = inputPipelines[ticker];
+            return {
+                prevValue: pipeline.last(idx),
+                getMA: period => pipeline.ma(idx, period),
+                getChange: period => pipeline.change(idx, period)
+            };
         };
 
         // 4. Simulation Engine
         let nav = strategy.initialCapital;
-        let cash = nav;
-        let holdings: Record<string, number> = {};
+        const book: Portfolio = { cash: nav, holdings: {} };
         let simResult: SimResultPoint[] = [];
         let trades: SimTrade[] = [];
-        let regimeSwitches: { date: string, from: number, to: number }[] = [];
-        let lastLoggedRegime = -1;
-        let lastExecutedSignal = -1; // New tracker for Signal-Only mode
+        let regimeSwitches: RegimeSwitch[] = [];
+        let lastLoggedRegime: number[] | null = null;
+        let lastExecutedSignal: number[] | null = null; // Regime weights at the last rebalance, for Signal-Only mode
         let targetWeights: Record<string, number> = {};
         let pendingRebalanceDay: number | null = null;
-        const bmStart = getSafePrice(benchmarkTicker, simDates[0]);
+        let workingOrder: WorkingOrder | null = null;
+        const liquidityWarnings: LiquidityWarning[] = [];
+        let pendingTrigger: Pick<SimTrade, 'trigger' | 'breach'> = {};
+        const rebalancePolicy = strategy.rebalancePolicy || 'Calendar';
+        // Protective stops: levels are tracked on NAV from the last move into risk on
+        let heldRiskOn = 0; // Risk-on weight behind the current targets
+        let entryNav = nav;
+        let peakSinceEntry = nav;
+        let highWater = nav;
+        let stopped: { since: number; signalReset: boolean } | null = null;
+        const rotations: RotationSnapshot[] = [];
+        let lastRotationKey = ''; // Picks behind the current targets, for Signal-Only mode and the rotation log
+        const rotationReturns = rotation?.weighting === 'InverseVol' ? Object.fromEntries(rotationTickers.map(t => [t, dailyReturns(marketDataMap, t, sortedDates)])) : {};
+        const tickerIds = new Map(rotationIds.map(id => [resolveTicker(id), id]));
+        const defensive = baskets.map((_, k) => k === regimeCount - 1 ? 1 : 0);
+        const basketTargets = (weights: number[]): Record<string, number> => {
+            const targets: Record<string, number> = {};
+            baskets.forEach((basket, k) => basket.forEach(c => {
+                const t = resolveTicker(c.symbolId);
+                targets[t] = (targets[t] || 0) + weights[k] * signedAllocation(c);
+            }));
+            return targets;
+        };
+
+        // Optional overlay that scales the basket toward a target volatility
+        const volTarget = (strategy.volTargetPct || 0) / 100;
+        const volLookback = Math.max(2, Math.floor(strategy.volTargetLookback || 63));
+        const maxLeverage = Math.max(0, strategy.volTargetMaxLeverage ?? 1);
+        const assetReturns = volTarget > 0 ? Object.fromEntries(tradedTickers.map(t => [t, dailyReturns(marketDataMap, t, sortedDates)])) : {};
+        const volScaleFor = (weights: number[], date: string): number => {
+            const vol = portfolioVolatility(assetReturns, basketTargets(weights), dateIndex.get(date)!, volLookback, sessionsPerYear);
+            return vol ? Math.min(maxLeverage, volTarget / vol) : Math.min(1, maxLeverage);
+        };
+        const sizedTargets = (weights: number[], scale: number): Record<string, number> => {
+            const base = basketTargets(weights);
+            if (volTarget <= 0) return base;
+            const targets: Record<string, number> = {};
+            Object.entries(base).forEach(([t, w]) => targets[t] = w * scale);
+            if (scale < 1 && strategy.volTargetLeftover !== 'Cash') {
+                Object.entries(basketTargets(defensive)).forEach(([t, w]) => targets[t] = (targets[t] || 0) + w * (1 - scale));
+            }
+            return targets;
+        };
+        const benchmarkSeries = forwardFilled(sortedDates, (t, d) => dividendTreatment !== 'None' ? totalReturnPrice(marketDataMap, t, d) : closePrice(marketDataMap, t, d));
+        const benchmarkPrice = (d: string) => benchmarkSeries(benchmarkTicker, d);
+        const bmStart = benchmarkPrice(simDates[0]);
+        const rebalanceDays = rebalanceSchedule(strategy, simDates, calendar);
+        const borrowFeeDaily = (strategy.shortBorrowFeePct || 0) / 100 / sessionsPerYear;
+        const cashYield = await loadCashYield(strategy, symbols, simDates, sessionsPerYear);
+        const borrowRateDaily = (strategy.borrowRatePct || 0) / 100 / sessionsPerYear;
+        let lastContributions: Record<string, number> = {};
+
+        const totalRuleWeight = ruleEntries.reduce((a, r) => a + r.weight, 0) || 1;
+        const progressStep = Math.max(1, Math.floor(simDates.length / 50));
+        const taxLedger = strategy.taxEnabled ? TaxLots.createLedger() : null;
 
         for (let i = 0; i < simDates.length; i++) {
             const date = simDates[i];
             
-            // A. Update NAV (Mark-to-Market)
-            let currentVal = cash;
-            Object.entries(holdings).forEach(([t, q]) => {
+            // A. Accrue interest on cash, borrow fees on open shorts and dividends, then Mark-to-Market
+            const interest = i > 0 ? accrueCashInterest(book, cashYield[i], borrowRateDaily) : 0;
+            if (i > 0) chargeBorrowFees(book, borrowFeeDaily, t => getSafePrice(t, date));
+            const dividendFlow = i > 0 && dividendTreatment !== 'None'
+                ? accrueDividends(book, dividendMap, date, dividendTreatment, t => getSafePrice(t, date))
+                : 0;
+            const taxPaid = taxLedger && i > 0 ? settleTaxes(taxLedger, strategy, book, t => getSafePrice(t, date), date, simDates[i - 1]) : 0;
+
+            let currentVal = book.cash;
+            Object.entries(book.holdings).forEach(([t, q]) => {
                 const p = getSafePrice(t, date);
                 currentVal += q * p;
             });
             nav = currentVal;
             if (isNaN(nav) || !isFinite(nav)) nav = strategy.initialCapital;
 
-            const bmPrice = getSafePrice(benchmarkTicker, date);
+            const bmPrice = benchmarkPrice(date);
             const bmNav = (bmPrice / (bmStart || 1)) * strategy.initialCapital;
 
             // B. Signal Calculation (Regime Detection)
-            let riskOnW = 0;
-            const activeRuleId = strategy.rules?.[0]?.ruleId || 'rule_2';
-            const pPrevClose = getSafePrice(primaryTicker, simDates[i-1] || simDates[i]);
-
-            if (activeRuleId === 'rule_4') {
-                const ma200 = getMA(200, date), mom126 = getMomentum(126, date), mom63 = getMomentum(63, date);
-                if (ma200 && pPrevClose > ma200) riskOnW += 0.4;
-                if (mom126 !== null && mom126 > 0) riskOnW += 0.3;
-                if (mom63 !== null && mom63 > 0) riskOnW += 0.3;
-            } else if (activeRuleId === 'rule_3') {
-                const ma200 = getMA(200, date), ma50 = getMA(50, date);
-                if (ma200 && pPrevClose > ma200) riskOnW += 0.6;
-                if (ma50 && pPrevClose > ma50) riskOnW += 0.4;
-            } else if (activeRuleId === 'rule_1') {
-                const ma50 = getMA(50, date), ma75 = getMA(75, date), ma100 = getMA(100, date);
-                if (ma50 && pPrevClose > ma50) riskOnW += 0.5;
-                if (ma75 && pPrevClose > ma75) riskOnW += 0.25;
-                if (ma100 && pPrevClose > ma100) riskOnW += 0.25;
-            } else {
-                const ma25 = getMA(25, date), ma50 = getMA(50, date), ma100 = getMA(100, date);
-                if (ma25 && pPrevClose > ma25) riskOnW += 0.25;
-                if (ma50 && pPrevClose > ma50) riskOnW += 0.5;
-                if (ma100 && pPrevClose > ma100) riskOnW += 0.25;
+            const baseCtx: SignalContext = {
+                date,
+                prevClose: signalCloses[dateIndex.get(simDates[i-1] || simDates[i])!] || 0,
+                getMA: (period) => getMA(period, date),
+                getMomentum: (period) => getMomentum(period, date),
+                getVolatility: (period, estimator) => getVolatility(period, date, estimator),
+                getATR: (period) => getATR(period, date),
+                input: () => null
+            };
+            const contributions: Record<string, number> = {};
+            const regimeW: number[] = new Array(regimeCount).fill(0);
+            ruleEntries.forEach(({ key, rule, weight, params, inputs }) => {
+                const ctx: SignalContext = rule.inputs ? { ...baseCtx, input: k => inputs[k] ? inputSeries(inputs[k], date) : null } : baseCtx;
+                let vector: number[];
+                if (regimes && rule.regimeSignal) {
+                    vector = regimeVector(rule.regimeSignal(ctx, params, regimeCount), regimeCount);
+                } else {
+                    const raw = rule.signal(ctx, params);
+                    const ruleSignal = Math.max(0, Math.min(1, isFinite(raw) ? raw : 0));
+                    vector = new Array(regimeCount).fill(0);
+                    vector[0] = ruleSignal;
+                    vector[regimeCount - 1] += 1 - ruleSignal;
+                }
+                const share = weight / totalRuleWeight;
+                vector.forEach((p, k) => regimeW[k] += p * share);
+                contributions[key] = riskScore(vector) * share;
+            });
+            if (rotation && ruleEntries.length === 0) regimeW[0] = 1; // Rotation without rules is always invested
+            const riskOnW = Math.max(0, Math.min(1, riskScore(regimeW)));
+            const dominantRegime = regimes ? regimes[regimeW.indexOf(Math.max(...regimeW))].name : undefined;
+
+            if (lastLoggedRegime !== null && regimeWeightsMoved(regimeW, lastLoggedRegime)) {
+                let driverRuleId: string | undefined;
+                let maxMove = 0;
+                Object.keys(contributions).forEach(id => {
+                    const move = Math.abs(contributions[id] - (lastContributions[id] || 0));
+                    if (move > maxMove) { maxMove = move; driverRuleId = id; }
+                });
+                regimeSwitches.push({ date, from: riskScore(lastLoggedRegime), to: riskOnW, driverRuleId, regime: dominantRegime });
             }
+            lastLoggedRegime = regimeW;
+            lastContributions = contributions;
 
-            if (lastLoggedRegime !== -1 && Math.abs(riskOnW - lastLoggedRegime) > 0.01) {
-                regimeSwitches.push({ date, from: lastLoggedRegime, to: riskOnW });
+            // Rotation re-ranks the list every day; holdings only follow on rebalances
+            const rotationPick = rotation ? selectRotation(momentumScores(marketDataMap, rotationTickers, sortedDates, dateIndex.get(date)!, rotation), rotationReturns, dateIndex.get(date)!, rotation) : null;
+            const rotationKey = rotationPick ? `${rotationPick.picks.map(p => `${p.ticker}:${p.weight}`).join(',')}|${rotationPick.riskOffPct}` : '';
+            if (rotationPick) {
+                baskets[0] = [
+                    ...rotationPick.picks.map(p => ({ symbolId: tickerIds.get(p.ticker)!, direction: 'Long' as const, allocation: p.weight })),
+                    ...riskOffBasket.map(c => ({ ...c, allocation: c.allocation * rotationPick.riskOffPct / 100 }))
+                ];
             }
-            lastLoggedRegime = riskOnW;
-
-            // C. Rebalancing Trigger
-            if (isRebalanceDay(date, i, strategy.rebalanceFreq)) {
-                // If Signal-Only mode is enabled, only proceed if the riskOnW has changed from the last rebalance
-                const signalChanged = Math.abs(riskOnW - lastExecutedSignal) > 0.01;
-                
-                if (!strategy.onlyTradeOnSignalChange || signalChanged || i === 0) {
-                    const newTargets: Record<string, number> = {};
-                    strategy.riskOnComponents.forEach(c => newTargets[resolveTicker(c.symbolId)] = (newTargets[resolveTicker(c.symbolId)] || 0) + (riskOnW * (c.allocation / 100)));
-                    strategy.riskOffComponents.forEach(c => newTargets[resolveTicker(c.symbolId)] = (newTargets[resolveTicker(c.symbolId)] || 0) + ((1 - riskOnW) * (c.allocation / 100)));
-                    targetWeights = newTargets;
-                    lastExecutedSignal = riskOnW; // Update for future checks
-                    
-                    if (pendingRebalanceDay === null) {
-                        pendingRebalanceDay = i + (strategy.executionDelay || 0);
-                    }
+            const volScale = volTarget > 0 ? volScaleFor(regimeW, date) : 1;
+
+            // C. Protective Stops
+            const calendarDay = i === 0 || rebalanceDays.has(date);
+            highWater = Math.max(highWater, nav);
+            peakSinceEntry = Math.max(peakSinceEntry, nav);
+            let reentry = false;
+            if (stopped) {
+                if (riskOnW <= 0.01) stopped.signalReset = true;
+                const reentryMode = strategy.stopReentry || 'NextRebalance';
+                reentry = i > stopped.since && (
+                    reentryMode === 'NextRebalance' ? calendarDay
+                    : reentryMode === 'Cooldown' ? i - stopped.since >= Math.max(1, strategy.stopCooldownDays || 0)
+                    : stopped.signalReset && riskOnW > 0.01
+                );
+                if (reentry) {
+                    stopped = null;
+                    highWater = nav; // Otherwise the breaker would fire again straight away
+                }
+            } else if (i > 0 && heldRiskOn > 0) {
+                const hit = stopTriggered(strategy, nav, entryNav, peakSinceEntry, highWater);
+                if (hit) {
+                    stopped = { since: i, signalReset: false };
+                    targetWeights = basketTargets(defensive);
+                    heldRiskOn = 0;
+                    lastExecutedSignal = defensive;
+                    const due = i + (strategy.executionDelay || 0);
+                    pendingRebalanceDay = pendingRebalanceDay === null ? due : Math.min(pendingRebalanceDay, due);
+                    pendingTrigger = { trigger: hit };
                 }
             }
 
-            // D. Execute Rebalance
-            let rebalancedThisDay = false;
-            if (pendingRebalanceDay !== null && i >= pendingRebalanceDay) {
-                rebalancedThisDay = true;
-                const costMultiplier = (1 + (strategy.transactionCostPct + strategy.slippagePct) / 100);
-                const sellMultiplier = (1 - (strategy.transactionCostPct + strategy.slippagePct) / 100);
-                
-                Object.keys(holdings).forEach(t => {
-                    const price = getExecutionPrice(t, date);
-                    if (price <= 0) return;
-                    const targetVal = (targetWeights[t] || 0) * nav;
-                    const currentVal = (holdings[t] || 0) * price;
-                    if (currentVal > targetVal + 1) {
-                        const sellValRaw = currentVal - targetVal;
-                        const qty = sellValRaw / price;
-                        const cost = sellValRaw * (1 - sellMultiplier);
-                        const netCash = sellValRaw - cost;
-                        holdings[t] -= qty;
-                        cash += netCash;
-                        nav -= cost;
-                        trades.push({ 
-                            date, 
-                            ticker: t, 
-                            type: 'SELL', 
-                            value: sellValRaw, 
-                            shares: qty, 
-                            price,
-                            riskOnPct: Number((riskOnW * 100).toFixed(2)),
-                            riskOffPct: Number(((1 - riskOnW) * 100).toFixed(2))
-                        });
-                    }
-                });
+            // D. Rebalancing Trigger
+            // A stopped strategy stays risk off until its re-entry condition is met
+            const prevRiskOn = heldRiskOn;
+            if (reentry) {
+                targetWeights = sizedTargets(regimeW, volScale);
+                heldRiskOn = riskOnW;
+                lastExecutedSignal = regimeW;
+                if (pendingRebalanceDay === null) pendingRebalanceDay = i + (strategy.executionDelay || 0);
+                pendingTrigger = { trigger: 'Reentry' };
+            } else if (!stopped && rebalancePolicy === 'Calendar') {
+                if (calendarDay) {
+                    // If Signal-Only mode is enabled, only proceed if the regime weights changed since the last rebalance
+                    const signalChanged = regimeWeightsMoved(regimeW, lastExecutedSignal) || rotationKey !== lastRotationKey;
 
-                Object.keys(targetWeights).forEach(t => {
-                    const price = getExecutionPrice(t, date);
-                    if (price <= 0) return;
-                    const targetVal = targetWeights[t] * nav;
-                    const currentVal = (holdings[t] || 0) * price;
-                    if (targetVal > currentVal + 1) {
-                        let buyValDesired = targetVal - currentVal;
-                        let totalCostForDesired = buyValDesired * (costMultiplier - 1);
-                        if (buyValDesired + totalCostForDesired > cash) {
-                            buyValDesired = cash / costMultiplier;
-                        }
-                        if (buyValDesired > 1) {
-                            const cost = buyValDesired * (costMultiplier - 1);
-                            const qty = buyValDesired / price;
-                            holdings[t] = (holdings[t] || 0) + qty;
-                            cash -= (buyValDesired + cost);
-                            nav -= cost;
-                            trades.push({ 
-                                date, 
-                                ticker: t, 
-                                type: 'BUY', 
-                                value: buyValDesired, 
-                                shares: qty, 
-                                price,
-                                riskOnPct: Number((riskOnW * 100).toFixed(2)),
-                                riskOffPct: Number(((1 - riskOnW) * 100).toFixed(2))
-                            });
+                    if (!strategy.onlyTradeOnSignalChange || signalChanged || i === 0) {
+                        targetWeights = sizedTargets(regimeW, volScale);
+                        heldRiskOn = riskOnW;
+                        lastExecutedSignal = regimeW; // Update for future checks
+
+                        if (pendingRebalanceDay === null) {
+                            pendingRebalanceDay = i + (strategy.executionDelay || 0);
+                            pendingTrigger = { trigger: i === 0 ? 'Initial' : 'Calendar' };
                         }
                     }
+                }
+            } else if (!stopped && pendingRebalanceDay === null && (rebalancePolicy === 'DriftBand' || calendarDay)) {
+                // Holdings are compared with today's targets, so a regime change shows up as drift too
+                const desired = sizedTargets(regimeW, volScale);
+                const breach = i === 0 ? null : findDriftBreach(portfolioExposures(book, nav, t => getSafePrice(t, date)), desired, strategy);
+                if (i === 0 || breach) {
+                    targetWeights = desired;
+                    heldRiskOn = riskOnW;
+                    lastExecutedSignal = regimeW;
+                    pendingRebalanceDay = i + (strategy.executionDelay || 0);
+                    pendingTrigger = breach ? { trigger: 'DriftBand', breach } : { trigger: 'Initial' };
+                }
+            }
+
+            // Targets built from today's basket leave today's weights as the last executed signal
+            if (rotationPick && lastExecutedSignal === regimeW && rotationKey !== lastRotationKey) {
+                rotations.push({ date, ...rotationPick });
+                lastRotationKey = rotationKey;
+            }
+
+            if (prevRiskOn <= 0 && heldRiskOn > 0) {
+                entryNav = nav;
+                peakSinceEntry = nav;
+            }
+
+            // E. Execute Rebalance
+            // Orders wait for every market they trade in to be open, for a few sessions at most
+            let rebalancedThisDay = false;
+            const marketsOpen = (due: number) => i - due >= MAX_ORDER_WAIT || Object.keys({ ...targetWeights, ...book.holdings })
+                .every(t => (!targetWeights[t] && !book.holdings[t]) || marketDataMap[t]?.has(date));
+            const fillPrice = (t: string) => getExecutionPrice(t, date);
+            // Same-session fills size on the closing NAV, the other models on NAV at their fill prices
+            const sizingNav = () => (strategy.executionModel || 'SameBar') === 'SameBar' ? nav : markBook(book, fillPrice);
+            if (pendingRebalanceDay !== null && i >= pendingRebalanceDay && marketsOpen(pendingRebalanceDay)) {
+                // A new order replaces one still working; whatever that one filled stands
+                const sessions = Math.min(ExecutionModels.sessions(strategy), simDates.length - i);
+                workingOrder = startOrder(book, targetWeights, sizingNav(), strategy, fillPrice, sessions, t => advOf(t, date), {
+                    date,
+                    riskOnPct: Number((riskOnW * 100).toFixed(2)),
+                    riskOffPct: Number(((1 - riskOnW) * 100).toFixed(2)),
+                    regime: dominantRegime,
+                    ...pendingTrigger
                 });
                 pendingRebalanceDay = null;
             }
+            if (workingOrder) {
+                rebalancedThisDay = true;
+                const sized = sizingNav();
+                const filled = workOrder(workingOrder, book, sized, strategy, fillPrice, lotOf, t => advOf(t, date), t => marketDataMap[t]?.get(date)?.volume || 0, date);
+                trades.push(...filled.trades);
+                liquidityWarnings.push(...filled.warnings);
+                nav -= sized - filled.nav;
+                if (workingOrder.session >= workingOrder.sessions && !filled.remainder) workingOrder = null;
+                if (taxLedger) TaxLots.syncBook(taxLedger, strategy, book.holdings, fillPrice, date);
+            }
 
             simResult.push({
                 date, value: nav, benchmarkValue: bmNav,
                 riskOn: Number((riskOnW * 100).toFixed(2)), 
                 riskOff: Number(((1 - riskOnW) * 100).toFixed(2)),
-                rebalanced: rebalancedThisDay
+                rebalanced: rebalancedThisDay,
+                ruleContributions: Object.fromEntries(Object.entries(contributions).map(([id, c]) => [id, Number((c * 100).toFixed(2))])),
+                exposures: portfolioExposures(book, nav, t => getSafePrice(t, date)),
+                dividends: dividendFlow || undefined,
+                interest: interest || undefined,
+                volScale: volTarget > 0 ? Number(volScale.toFixed(3)) : undefined,
+                regimeWeights: regimes ? Object.fromEntries(regimes.map((r, k) => [r.id, Number((regimeW[k] * 100).toFixed(2))])) : undefined,
+                afterTaxValue: taxLedger ? nav - TaxLots.liability(taxLedger, strategy) : undefined,
+                taxPaid: taxPaid || undefined
+            });
+
+            if (hooks.onProgress && (i % progressStep === 0 || i === simDates.length - 1)) hooks.onProgress(i + 1, simDates.length);
+        }
+        // The final year is reported but left unpaid
+        if (taxLedger) TaxLots.settleYear(taxLedger, strategy, yearOf(simDates[simDates.length - 1]));
+        return {
+            series: simResult,
+            trades,
+            regimeSwitches,
+            regimes: regimes?.map(r => ({ id: r.id, name: r.name })),
+            rotations: rotation ? rotations : undefined,
+            taxYears: taxLedger?.years,
+            liquidityWarnings,
+            currency: baseCurrency,
+            sessionsPerYear
+        };
+    },
+
+    /**
+     * Runs every child strategy, then holds their underlying assets in one book. Each child owns a
+     * sleeve of the meta NAV that drifts with the child's returns and is reset to its target weight
+     * on meta rebalance days. Whenever a child trades or the meta rebalances, the combined target
+     * is traded once, so opposing child orders in the same asset net out.
+     */
+    async runMetaSimulation(
+        strategy: Strategy,
+        symbols: SymbolData[],
+        startDate?: string,
+        endDate?: string,
+        lineage: string[] = [],
+        hooks: SimulationHooks = {}
+    ): Promise<DetailedSimResult> {
+        const path = [...lineage, strategy.id];
+        const baseCurrency = FxService.baseCurrency(strategy, symbols);
+        const dividendTreatment: DividendTreatment = strategy.dividendTreatment || 'None';
+        const cashTerms: Partial<Strategy> = {
+            cashRateSource: strategy.cashRateSource,
+            cashRatePct: strategy.cashRatePct,
+            cashRateSymbolId: strategy.cashRateSymbolId,
+            borrowRatePct: strategy.borrowRatePct
+        };
+        const executionTerms: Partial<Strategy> = {
+            executionModel: strategy.executionModel,
+            executionDays: strategy.executionDays
+        };
+        const calendar = strategyCalendar(strategy, symbols);
+        const sessionsPerYear = Calendars.sessionsPerYear(calendar);
+        const allStrategies = EngineData.getStrategies();
+        const children = (strategy.subStrategyAllocations || []).filter(a => a.weight > 0).map(a => {
+            const child = allStrategies.find(s => s.id === a.strategyId);
+            if (!child) throw new Error(`Missing sub-strategy ${a.strategyId}`);
+            if (path.includes(child.id)) throw new Error(`Circular meta-strategy reference via ${child.name}`);
+            return { strategy: child, weight: a.weight };
+        });
+        if (children.length === 0) throw new Error("Meta strategy has no sub-strategies.");
+        const totalWeight = children.reduce((a, c) => a + c.weight, 0);
+        const targetShares = children.map(c => c.weight / totalWeight);
+
+        // 1. Child Simulations
+        const childSims: DetailedSimResult[] = [];
+        for (const c of children) {
+            // Children report in the meta currency, dividend mode, cash terms, calendar and execution model so sleeve
+            // returns match the book. Gains are only taxed, and liquidity only limited, where the meta book trades.
+            childSims.push(await this.runSimulation({ ...c.strategy, baseCurrency, dividendTreatment, ...cashTerms, ...executionTerms, calendar: calendar || c.strategy.calendar, taxEnabled: false }, symbols, startDate, endDate, path));
+            hooks.onProgress?.(childSims.length, children.length + 1);
+        }
+        const childPoints = childSims.map(sim => new Map(sim.series.map(p => [p.date, p])));
+        const simDates = childSims[0].series.map(p => p.date).filter(d => childPoints.every(m => m.has(d)));
+        if (simDates.length < 5) throw new Error("Sub-strategies share too few common dates for analysis.");
+
+        // 2. Price Data for the Combined Book
+        const benchmarkTicker = symbols.find(s => s.id === strategy.benchmarkSymbolId)?.ticker || 'SPY';
+        const bookTickers = new Set<string>([benchmarkTicker]);
+        childSims.forEach(sim => sim.series.forEach(p => Object.keys(p.exposures).forEach(t => bookTickers.add(t))));
+        const marketDataMap: PriceMap = {};
+        const dividendMap: DividendMap = {};
+        for (const t of bookTickers) {
+            const data = await EngineData.getMarketData(t);
+            if (!data || data.length === 0) throw new Error(`Missing history for ${t}`);
+            const ccy = seriesCurrency(t, symbols, baseCurrency);
+            const converted = await FxService.convertSeries(data, ccy, baseCurrency);
+            marketDataMap[t] = new Map(converted.map(d => [d.date, d]));
+            if (dividendTreatment !== 'None' && !t.startsWith('STRAT:')) {
+                dividendMap[t] = await loadDividends(t, converted, ccy, baseCurrency);
+            }
+        }
+
+        // 3. Combined Book Simulation
+        let nav = strategy.initialCapital;
+        const book: Portfolio = { cash: nav, holdings: {} };
+        let sleeves = targetShares.map(w => w * nav);
+        const contributions = children.map(() => 0);
+        const simResult: SimResultPoint[] = [];
+        const trades: SimTrade[] = [];
+        const regimeSwitches: RegimeSwitch[] = [];
+        let lastRiskOn = -1;
+        const markPrice = forwardFilled(simDates, (t, d) => closePrice(marketDataMap, t, d));
+        const lotOf = lotSizer(symbols);
+        const advOf = averageVolume(marketDataMap, simDates, Math.max(1, Math.floor(strategy.advLookback || 20)));
+        const benchmarkSeries = forwardFilled(simDates, (t, d) => dividendTreatment !== 'None' ? totalReturnPrice(marketDataMap, t, d) : closePrice(marketDataMap, t, d));
+        const benchmarkPrice = (d: string) => benchmarkSeries(benchmarkTicker, d);
+        const bmStart = benchmarkPrice(simDates[0]);
+        const cashYield = await loadCashYield(strategy, symbols, simDates, sessionsPerYear);
+        const borrowRateDaily = (strategy.borrowRatePct || 0) / 100 / sessionsPerYear;
+        const borrowFeeDaily = (strategy.shortBorrowFeePct || 0) / 100 / sessionsPerYear;
+        const rebalancePolicy = strategy.rebalancePolicy || 'Calendar';
+        const rebalanceDays = rebalanceSchedule(strategy, simDates, calendar);
+        const taxLedger = strategy.taxEnabled ? TaxLots.createLedger() : null;
+        let workingOrder: WorkingOrder | null = null;
+        const liquidityWarnings: LiquidityWarning[] = [];
+
+        for (let i = 0; i < simDates.length; i++) {
+            const date = simDates[i];
+            const points = childPoints.map(m => m.get(date)!);
+
+            // Netted shorts pay the strategy's borrow fee, as in a single-strategy book
+            const interest = i > 0 ? accrueCashInterest(book, cashYield[i], borrowRateDaily) : 0;
+            if (i > 0) chargeBorrowFees(book, borrowFeeDaily, t => markPrice(t, date));
+            const dividendFlow = i > 0 && dividendTreatment !== 'None'
+                ? accrueDividends(book, dividendMap, date, dividendTreatment, t => markPrice(t, date))
+                : 0;
+            const taxPaid = taxLedger && i > 0 ? settleTaxes(taxLedger, strategy, book, t => markPrice(t, date), date, simDates[i - 1]) : 0;
+
+            let currentVal = book.cash;
+            Object.entries(book.holdings).forEach(([t, q]) => { currentVal += q * markPrice(t, date); });
+            nav = currentVal;
+            if (isNaN(nav) || !isFinite(nav)) nav = strategy.initialCapital;
+
+            const bmNav = (benchmarkPrice(date) / (bmStart || 1)) * strategy.initialCapital;
+
+            // A. Drift sleeves with each child's return and attribute it to the meta NAV
+            if (i > 0) {
+                const sleeveTotal = sleeves.reduce((a, b) => a + b, 0) || 1;
+                sleeves = sleeves.map((v, k) => {
+                    const prev = childPoints[k].get(simDates[i - 1])!.value;
+                    const ret = prev > 0 ? points[k].value / prev - 1 : 0;
+                    contributions[k] += (v / sleeveTotal) * ret;
+                    return v * (1 + ret);
+                });
+            }
+
+            // Drift bands apply to the sleeves: a child that drifts too far from its target share resets all of them
+            const calendarDay = i === 0 || rebalanceDays.has(date);
+            let metaTrigger: Pick<SimTrade, 'trigger' | 'breach'> = { trigger: 'SubStrategy' };
+            if (i === 0) metaTrigger = { trigger: 'Initial' };
+            else if (rebalancePolicy === 'Calendar') {
+                if (calendarDay) metaTrigger = { trigger: 'Calendar' };
+            } else if (rebalancePolicy === 'DriftBand' || calendarDay) {
+                const total = sleeves.reduce((a, b) => a + b, 0) || 1;
+                const breach = findDriftBreach(
+                    Object.fromEntries(sleeves.map((v, k) => [k, v / total])),
+                    Object.fromEntries(targetShares.map((w, k) => [k, w])),
+                    strategy,
+                    k => children[Number(k)].strategy.name
+                );
+                if (breach) metaTrigger = { trigger: 'DriftBand', breach };
+            }
+            const metaRebalance = metaTrigger.trigger !== 'SubStrategy';
+            if (metaRebalance) sleeves = targetShares.map(w => w * nav);
+
+            const sleeveTotal = sleeves.reduce((a, b) => a + b, 0) || 1;
+            const shares = sleeves.map(v => v / sleeveTotal);
+            const riskOn = shares.reduce((a, w, k) => a + w * points[k].riskOn, 0);
+            if (lastRiskOn !== -1 && Math.abs(riskOn - lastRiskOn) > 1) {
+                regimeSwitches.push({ date, from: lastRiskOn / 100, to: riskOn / 100 });
+            }
+            lastRiskOn = riskOn;
+
+            // B. Net child books into one order list
+            // Children work their own orders over several sessions, so the netted book schedules each day's for one;
+            // only a participation cap carries part of it forward
+            let rebalancedThisDay = false;
+            const priceOf = (t: string) => executionPrice(marketDataMap, t, date, ExecutionModels.priceType(strategy));
+            const sizingNav = (strategy.executionModel || 'SameBar') === 'SameBar' ? nav : markBook(book, priceOf);
+            if (metaRebalance || points.some(p => p.rebalanced)) {
+                const targetWeights: Record<string, number> = {};
+                points.forEach((p, k) => {
+                    Object.entries(p.exposures).forEach(([t, w]) => {
+                        targetWeights[t] = (targetWeights[t] || 0) + shares[k] * w;
+                    });
+                });
+                if (!metaRebalance) {
+                    // Only assets a rebalancing child opened, resized or closed are traded; the rest keep their drift
+                    const touched = new Set<string>();
+                    points.forEach((p, k) => {
+                        if (!p.rebalanced) return;
+                        const prev = i > 0 ? childPoints[k].get(simDates[i - 1])!.exposures : {};
+                        [...Object.keys(p.exposures), ...Object.keys(prev)].forEach(t => touched.add(t));
+                    });
+                    Object.keys({ ...targetWeights, ...book.holdings }).forEach(t => {
+                        if (!touched.has(t)) targetWeights[t] = sizingNav > 0 ? ((book.holdings[t] || 0) * priceOf(t)) / sizingNav : 0;
+                    });
+                }
+                workingOrder = startOrder(book, targetWeights, sizingNav, strategy, priceOf, 1, t => advOf(t, date), {
+                    date,
+                    riskOnPct: Number(riskOn.toFixed(2)),
+                    riskOffPct: Number((100 - riskOn).toFixed(2)),
+                    ...metaTrigger
+                });
+            }
+            if (workingOrder) {
+                const filled = workOrder(workingOrder, book, sizingNav, strategy, priceOf, lotOf, t => advOf(t, date), t => marketDataMap[t]?.get(date)?.volume || 0, date);
+                trades.push(...filled.trades);
+                liquidityWarnings.push(...filled.warnings);
+                nav -= sizingNav - filled.nav;
+                if (!filled.remainder) workingOrder = null;
+                rebalancedThisDay = true;
+                if (taxLedger) TaxLots.syncBook(taxLedger, strategy, book.holdings, priceOf, date);
+            }
+
+            simResult.push({
+                date, value: nav, benchmarkValue: bmNav,
+                riskOn: Number(riskOn.toFixed(2)),
+                riskOff: Number((100 - riskOn).toFixed(2)),
+                rebalanced: rebalancedThisDay,
+                ruleContributions: {},
+                exposures: portfolioExposures(book, nav, t => markPrice(t, date)),
+                subStrategyContributions: Object.fromEntries(children.map((c, k) => [c.strategy.id, Number((contributions[k] * 100).toFixed(2))])),
+                dividends: dividendFlow || undefined,
+                interest: interest || undefined,
+                afterTaxValue: taxLedger ? nav - TaxLots.liability(taxLedger, strategy) : undefined,
+                taxPaid: taxPaid || undefined
             });
         }
-        return { series: simResult, trades, regimeSwitches };
+        if (taxLedger) TaxLots.settleYear(taxLedger, strategy, yearOf(simDates[simDates.length - 1]));
+
+        const finalTotal = sleeves.reduce((a, b) => a + b, 0) || 1;
+        const subStrategies: SubStrategySummary[] = children.map((c, k) => ({
+            strategyId: c.strategy.id,
+            name: c.strategy.name,
+            targetWeight: Number((targetShares[k] * 100).toFixed(2)),
+            finalWeight: Number(((sleeves[k] / finalTotal) * 100).toFixed(2)),
+            contribution: Number((contributions[k] * 100).toFixed(2))
+        }));
+
+        hooks.onProgress?.(children.length + 1, children.length + 1);
+        return { series: simResult, trades, regimeSwitches, subStrategies, taxYears: taxLedger?.years, liquidityWarnings, currency: baseCurrency, sessionsPerYear };
     }
 };
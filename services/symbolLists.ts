@@ -0,0 +1,46 @@
+import { Strategy, StrategyComponent, SymbolData } from "../types";
+
+export interface ListMemberWeight {
+    symbol: SymbolData;
+    weight: number; // Fraction of the list's allocation
+}
+
+export const SymbolLists = {
+    // Member symbols that still exist; lists are not nested, so members that are lists are skipped
+    members(list: SymbolData, symbols: SymbolData[]): SymbolData[] {
+        return (list.listMembers || [])
+            .map(id => symbols.find(s => s.id === id))
+            .filter((s): s is SymbolData => !!s && !s.isList);
+    },
+
+    // Custom weights are normalized over the members present; without any, members share equally
+    memberWeights(list: SymbolData, symbols: SymbolData[]): ListMemberWeight[] {
+        const members = SymbolLists.members(list, symbols);
+        const custom = members.map(m => Math.max(0, list.listWeights?.[m.id] || 0));
+        const total = custom.reduce((a, b) => a + b, 0);
+        return members.map((symbol, k) => ({ symbol, weight: total > 0 ? custom[k] / total : 1 / members.length }));
+    },
+
+    /**
+     * Replaces each list component with one component per member, splitting its allocation by
+     * the member weights. Other components pass through unchanged.
+     */
+    expandComponents(components: StrategyComponent[], symbols: SymbolData[]): StrategyComponent[] {
+        return components.flatMap(c => {
+            const list = symbols.find(s => s.id === c.symbolId && s.isList);
+            if (!list) return [c];
+            return SymbolLists.memberWeights(list, symbols).map(m => ({ ...c, symbolId: m.symbol.id, allocation: c.allocation * m.weight }));
+        });
+    },
+
+    // Lists a strategy reads from: basket components, regimes, its signal source or rotation universe
+    usedBy(strategies: Strategy[], symbols: SymbolData[]): SymbolData[] {
+        const ids = new Set<string>();
+        strategies.forEach(st => {
+            [...st.riskOnComponents, ...st.riskOffComponents, ...(st.regimes || []).flatMap(r => r.components)].forEach(c => ids.add(c.symbolId));
+            if (st.signalSymbolId) ids.add(st.signalSymbolId);
+            if (st.rotation?.listId) ids.add(st.rotation.listId);
+        });
+        return symbols.filter(s => s.isList && ids.has(s.id));
+    }
+};
@@ -0,0 +1,124 @@
+import { Strategy } from "../types";
+
+export interface TaxLot {
+    shares: number; // Negative for a short lot
+    cost: number; // Per share in the base currency; the sale price for a short lot
+    date: string;
+}
+
+export interface TaxYear {
+    year: number;
+    shortTermGains: number; // Net realized in the year, before loss offsets
+    longTermGains: number;
+    lossCarryForward: number; // Net losses left over for later years (zero or negative)
+    tax: number;
+    settledOn?: string; // Session the tax was paid from cash; unset for the final year, still open
+}
+
+export interface TaxLedger {
+    lots: Record<string, TaxLot[]>;
+    shortTerm: number; // Realized so far this year
+    longTerm: number;
+    carryShort: number; // Losses brought forward from earlier years (zero or negative)
+    carryLong: number;
+    years: TaxYear[];
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+const EPSILON = 1e-9;
+
+const heldDays = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Tax on the year's gains after offsets. Short-term losses may be set against long-term gains;
+ * long-term losses only against long-term gains. What cannot be used is carried forward.
+ */
+const assess = (ledger: TaxLedger, strategy: Strategy) => {
+    let st = ledger.shortTerm + ledger.carryShort;
+    let lt = ledger.longTerm + ledger.carryLong;
+    if (st < 0 && lt > 0) {
+        const used = Math.min(-st, lt);
+        st += used;
+        lt -= used;
+    }
+    const taxableLong = Math.max(0, lt - (strategy.longTermExemption || 0));
+    return {
+        tax: Math.max(0, st) * (strategy.shortTermTaxPct || 0) / 100 + taxableLong * (strategy.longTermTaxPct || 0) / 100,
+        carryShort: Math.min(0, st),
+        carryLong: Math.min(0, lt)
+    };
+};
+
+export const TaxLots = {
+    createLedger(): TaxLedger {
+        return { lots: {}, shortTerm: 0, longTerm: 0, carryShort: 0, carryLong: 0, years: [] };
+    },
+
+    /**
+     * Brings a ticker's lots in line with its quantity after trading at `price`: growth opens a
+     * lot, shrinkage closes lots in the strategy's order and books the gain. A position that
+     * flips side closes every lot before opening one on the other side. Short sales are always
+     * short-term.
+     */
+    sync(ledger: TaxLedger, strategy: Strategy, ticker: string, quantity: number, price: number, date: string) {
+        const lots = ledger.lots[ticker] || [];
+        const held = lots.reduce((a, l) => a + l.shares, 0);
+        const delta = quantity - held;
+        if (Math.abs(delta) < EPSILON || !(price > 0)) return;
+
+        if (held !== 0 && Math.sign(delta) !== Math.sign(held)) {
+            const side = Math.sign(held);
+            const method = strategy.taxLotMethod || 'FIFO';
+            const order = lots.map((_, i) => i);
+            if (method === 'LIFO') order.reverse();
+            // Highest basis first for longs; for shorts the mirror image, lowest sale price first
+            else if (method === 'HighestCost') order.sort((a, b) => side * (lots[b].cost - lots[a].cost));
+            let toClose = Math.min(Math.abs(delta), Math.abs(held));
+            for (const i of order) {
+                if (toClose <= EPSILON) break;
+                const lot = lots[i];
+                const n = Math.min(Math.abs(lot.shares), toClose);
+                const gain = side * n * (price - lot.cost);
+                if (side > 0 && heldDays(lot.date, date) > (strategy.longTermDays ?? 365)) ledger.longTerm += gain;
+                else ledger.shortTerm += gain;
+                lot.shares -= side * n;
+                toClose -= n;
+            }
+        }
+
+        const open = lots.filter(l => Math.abs(l.shares) > EPSILON);
+        const opened = quantity - open.reduce((a, l) => a + l.shares, 0);
+        if (Math.abs(opened) > EPSILON) open.push({ shares: opened, cost: price, date });
+        ledger.lots[ticker] = open;
+    },
+
+    // Syncs every ticker held or with open lots
+    syncBook(ledger: TaxLedger, strategy: Strategy, holdings: Record<string, number>, priceOf: (ticker: string) => number, date: string) {
+        Object.keys({ ...holdings, ...ledger.lots }).forEach(t => TaxLots.sync(ledger, strategy, t, holdings[t] || 0, priceOf(t), date));
+    },
+
+    // Tax the current year's realized gains would owe if the year ended now
+    liability(ledger: TaxLedger, strategy: Strategy): number {
+        return assess(ledger, strategy).tax;
+    },
+
+    /**
+     * Closes the tax year: records it, carries unused losses forward and returns the tax due.
+     */
+    settleYear(ledger: TaxLedger, strategy: Strategy, year: number, settledOn?: string): number {
+        const { tax, carryShort, carryLong } = assess(ledger, strategy);
+        ledger.years.push({
+            year,
+            shortTermGains: ledger.shortTerm,
+            longTermGains: ledger.longTerm,
+            lossCarryForward: carryShort + carryLong,
+            tax,
+            settledOn
+        });
+        ledger.shortTerm = 0;
+        ledger.longTerm = 0;
+        ledger.carryShort = carryShort;
+        ledger.carryLong = carryLong;
+        return tax;
+    }
+};
@@ -20,6 +20,52 @@ export enum RebalanceFrequency {
   ANNUALLY = 'Annually'
 }
 
+// How rebalances are triggered: on the calendar, when a holding drifts outside its band, or
+// when it has drifted outside its band on a calendar date
+export type RebalancePolicy = 'Calendar' | 'DriftBand' | 'CalendarAndDriftBand';
+
+export type DriftBandMode = 'Absolute' | 'Relative';
+
+// Trading calendar the simulation steps through; 'Always' trades every day (crypto, 24/7 markets)
+export type CalendarId = 'NYSE' | 'NSE' | 'Always';
+
+// Which session of each rebalance period the calendar trigger lands on
+export type RebalanceAnchor = 'PeriodStart' | 'PeriodEnd' | 'Weekday';
+
+// How commissions are charged; slippage is always a separate percentage of the order value
+export type CostModelKind = 'Percentage' | 'PerShare' | 'Tiered' | 'IndiaDeliveryETF';
+
+// Marginal commission rate on the slice of an order's value up to `upTo` (unset: no upper bound)
+export interface CostTier {
+  upTo?: number;
+  pct: number;
+}
+
+// How a rebalance order fills: in one session at the price preference, at the session's open,
+// at a volume-weighted price proxy, or in equal slices over several sessions
+export type ExecutionModel = 'SameBar' | 'NextOpen' | 'VWAP' | 'TWAP';
+
+// Which tax lots a sale closes first
+export type TaxLotMethod = 'FIFO' | 'LIFO' | 'HighestCost';
+
+export type VolTargetLeftover = 'RiskOff' | 'Cash';
+
+// When a strategy moved to risk off by a stop may take risk again
+export type StopReentry = 'NextRebalance' | 'SignalReset' | 'Cooldown';
+
+export type RotationWeighting = 'Equal' | 'InverseVol';
+
+// Relative-strength rotation: ranks the members of a symbol list and holds the strongest
+export interface RotationConfig {
+  listId: string; // SymbolData with isList
+  lookbacks: number[]; // Trading days; a member's score is its average return over these windows
+  skipDays: number; // Most recent days left out of every window (21 skips the last month)
+  topN: number;
+  weighting: RotationWeighting;
+  volLookback: number; // Trading days behind inverse-volatility weights
+  absoluteMomentum: boolean; // A pick with a negative score hands its slot to the risk-off basket
+}
+
 export enum PriceType {
   OPEN = 'Open',
   HIGH = 'High',
@@ -36,17 +82,32 @@ export interface MarketDataPoint {
   low: number;
   close: number;
   volume: number;
+  adjClose?: number; // Close adjusted for dividends (total return); prices are stored split-adjusted
 }
 
+export type CorporateActionType = 'DIVIDEND' | 'SPLIT';
+
+export interface CorporateAction {
+  date: string; // Ex-date
+  type: CorporateActionType;
+  value: number; // Cash per share for dividends, new shares per old share for splits (4 = 4-for-1)
+}
+
+export type DividendTreatment = 'None' | 'Reinvest' | 'Cash';
+
+export type CashRateSource = 'None' | 'Fixed' | 'Symbol';
+
 export interface SymbolData {
   id: string;
   ticker: string;
   name: string;
   exchange: string;
+  lotSize?: number; // Units per tradable lot when a strategy trades whole lots; defaults to 1
   defaultCCY: Currency;
   userCCY?: Currency; // Override
   isList: boolean;
   listMembers?: string[]; // IDs of other symbols if this is a list
+  listWeights?: Record<string, number>; // Custom % per member id when used in a basket; equal weights when unset
 }
 
 export interface MarketDataProvider {
@@ -55,40 +116,140 @@ export interface MarketDataProvider {
   type: 'Free' | 'Paid';
 }
 
+// A cross-asset series read as levels (an index like ^VIX, a yield spread, a breadth reading), which may be zero or negative
+export interface InputSeries {
+  prevValue: number | null; // Last value before the signal date
+  getMA: (period: number) => number | null;
+  getChange: (period: number) => number | null; // Level difference over the period
+}
+
+// Read-only view of the market handed to a rule on each simulation day
+export interface SignalContext {
+  date: string;
+  prevClose: number; // Previous close of the signal ticker
+  getMA: (period: number) => number | null;
+  getMomentum: (period: number) => number | null;
+  getVolatility: (period: number, estimator?: number) => number | null; // Annualized, e.g. 0.2 = 20%
+  getATR: (period: number) => number | null; // Price units
+  input: (key: string) => InputSeries | null; // Named inputs declared by the rule
+}
+
+export type RuleParams = Record<string, number>;
+
+export interface RuleParamSpec {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: { value: number; label: string }[]; // Enumerated choice instead of a free number
+}
+
+export interface RuleInputSpec {
+  key: string;
+  label: string;
+  defaultTicker?: string; // Series used when the strategy does not pick a symbol
+}
+
 export interface Rule {
   id: string;
   name: string;
   description: string;
+  params: RuleParams; // Defaults used by the signal function
+  paramSchema: RuleParamSpec[]; // Parameters a strategy may override
+  inputs?: RuleInputSpec[]; // Series other than the signal source that the rule reads
+  signal: (ctx: SignalContext, params: RuleParams) => number; // Risk-on weight in [0, 1]
+  // Multi-regime strategies: a regime index (fractions split between neighbours) or a probability
+  // vector, regime 0 being the most risk-on. Rules without it weight only the first and last regime.
+  regimeSignal?: (ctx: SignalContext, params: RuleParams, regimeCount: number) => number | number[];
+}
+
+export interface Regime {
+  id: string;
+  name: string;
+  components: StrategyComponent[];
 }
 
 export interface StrategyComponent {
   symbolId: string;
   direction: 'Long' | 'Short';
-  allocation: number; // Percentage 0-100
+  allocation: number; // Percentage of NAV; a basket above 100 is funded by borrowing cash
+}
+
+export interface StrategyRule {
+  ruleId: string;
+  weight: number;
+  params?: RuleParams; // Overrides on top of the rule defaults
+  inputs?: Record<string, string>; // Input key -> symbol id, overriding the rule's default ticker
 }
 
 export interface Strategy {
   id: string;
   name: string;
-  type: 'Single' | 'Meta';
+  type: 'Single' | 'Meta' | 'Rotation';
   description?: string;
   
   // Configuration
   rebalanceFreq: RebalanceFrequency;
+  rebalancePolicy?: RebalancePolicy; // Defaults to 'Calendar'
+  rebalanceAnchor?: RebalanceAnchor; // Defaults to 'PeriodStart' (first session of the period)
+  rebalanceAnchorOffset?: number; // 'PeriodEnd': sessions before the last one (0 = last trading day)
+  rebalanceAnchorWeekday?: number; // 'Weekday': 0 = Sunday ... 6 = Saturday; first such session of the period
+  calendar?: CalendarId; // Defaults to the benchmark exchange's calendar
+  driftBandPct?: number; // Percentage points of NAV (Absolute) or percent of the target weight (Relative)
+  driftBandMode?: DriftBandMode;
+  volTargetPct?: number; // Annualized portfolio volatility target; 0 or unset disables the overlay
+  volTargetLookback?: number; // Trading days of returns behind the realized volatility estimate
+  volTargetMaxLeverage?: number; // Upper bound on the exposure scale
+  volTargetLeftover?: VolTargetLeftover; // Where exposure removed by the overlay goes
+  stopLossPct?: number; // NAV loss from the last risk-on entry that forces the book risk off
+  trailingStopPct?: number; // NAV fall from its peak since the last risk-on entry
+  takeProfitPct?: number; // NAV gain from the last risk-on entry
+  drawdownBreakerPct?: number; // NAV drawdown from its high-water mark
+  stopReentry?: StopReentry; // Defaults to 'NextRebalance'
+  stopCooldownDays?: number; // Trading days to wait for 'Cooldown' re-entry
   pricePreference: PriceType;
   executionDelay: number; // days
+  executionModel?: ExecutionModel; // Defaults to 'SameBar'
+  executionDays?: number; // 'VWAP' and 'TWAP': sessions an order is worked over; defaults to 1
+  maxParticipationPct?: number; // Cap on each session's fill as % of average daily volume; 0 or unset for none
+  advLookback?: number; // Sessions behind the average daily volume; defaults to 20
+  impactPct?: number; // Market impact, as % of value, of an order the size of one day's average volume
   initialCapital: number;
-  transactionCostPct: number;
+  baseCurrency?: Currency; // Reporting currency; defaults to the benchmark's currency
+  transactionCostPct: number; // Commission as % of order value ('Percentage'), brokerage for 'IndiaDeliveryETF'
   slippagePct: number;
+  costModel?: CostModelKind; // Defaults to 'Percentage'
+  commissionPerShare?: number; // 'PerShare', in the base currency
+  commissionMaxPct?: number; // 'PerShare': cap as % of order value; 0 or unset for no cap
+  commissionTiers?: CostTier[]; // 'Tiered', ascending by upTo
+  minCommission?: number; // Floor on the commission of any order, in the base currency
+  fractionalShares?: boolean; // Defaults to true; false rounds every order to whole lots and leaves the rest in cash
+  minTradeValue?: number; // Orders smaller than this (base currency) are skipped
+  taxEnabled?: boolean; // Capital-gains tax on realized gains, settled from cash each year
+  taxLotMethod?: TaxLotMethod; // Defaults to 'FIFO'
+  longTermDays?: number; // Calendar days a lot must be held beyond to be long-term; defaults to 365
+  shortTermTaxPct?: number;
+  longTermTaxPct?: number;
+  longTermExemption?: number; // Long-term gains free of tax each year, in the base currency
+  shortBorrowFeePct?: number; // Annual fee on the market value of short positions
+  dividendTreatment?: DividendTreatment; // 'None' keeps price-return behaviour
+  cashRateSource?: CashRateSource; // Yield on positive cash; 'None' leaves idle cash flat
+  cashRatePct?: number; // Annual rate when the source is 'Fixed'
+  cashRateSymbolId?: string; // Money-market proxy (e.g. LIQUIDBEES.NS) whose total return is credited to cash
+  borrowRatePct?: number; // Annual rate charged on negative cash
   benchmarkSymbolId: string;
   backtestDuration: string; // e.g., '1Y', '3M'
   onlyTradeOnSignalChange?: boolean; // New: Only trade when MA/Logic triggers a weight shift
 
   // Logic
+  signalSymbolId?: string; // Symbol, list or STRAT:<id> the indicators read; defaults to the first risk-on component
   riskOnComponents: StrategyComponent[];
   riskOffComponents: StrategyComponent[];
-  rules: { ruleId: string; weight: number }[];
-  
+  regimes?: Regime[]; // Two or more named baskets ordered from most risk-on to most defensive; replace the risk-on/off pair
+  rules: StrategyRule[];
+  rotation?: RotationConfig; // Rotation strategies: replaces the risk-on basket with the top-ranked list members
+
   // Meta Strategy Specifics
   subStrategyAllocations?: { strategyId: string; weight: number }[];
 }